@@ -23,6 +23,7 @@ interface BatchJobCardProps {
   job: BatchJob;
   onStart?: (jobId: string) => void;
   onPause?: (jobId: string) => void;
+  onResume?: (jobId: string) => void;
   onCancel?: (jobId: string) => void;
   onRetry?: (jobId: string) => void;
   onViewDetails?: (jobId: string) => void;
@@ -31,6 +32,7 @@ interface BatchJobCardProps {
 const statusIcons = {
   pending: Clock,
   processing: Loader2,
+  paused: Pause,
   completed: CheckCircle,
   failed: XCircle,
   cancelled: AlertCircle
@@ -39,6 +41,7 @@ const statusIcons = {
 const statusColors = {
   pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
   processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  paused: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
   completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
   failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
   cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300'
@@ -48,6 +51,7 @@ export function BatchJobCard({
   job, 
   onStart, 
   onPause, 
+  onResume,
   onCancel, 
   onRetry, 
   onViewDetails 
@@ -57,7 +61,8 @@ export function BatchJobCard({
   const StatusIcon = statusIcons[job.status];
   const canStart = job.status === 'pending' || job.status === 'failed';
   const canPause = job.status === 'processing';
-  const canCancel = job.status === 'pending' || job.status === 'processing';
+  const canResume = job.status === 'paused';
+  const canCancel = job.status === 'pending' || job.status === 'processing' || job.status === 'paused';
   const canRetry = job.status === 'failed' && job.failed_items > 0;
 
   const getProgressVariant = () => {
@@ -150,6 +155,17 @@ export function BatchJobCard({
             </Button>
           )}
           
+          {canResume && onResume && (
+            <Button 
+              size="sm" 
+              onClick={() => onResume(job.id)}
+              className="flex items-center gap-1"
+            >
+              <Play className="h-3 w-3" />
+              Resume
+            </Button>
+          )}
+          
           {canCancel && onCancel && (
             <Button 
               size="sm" 
@@ -0,0 +1,97 @@
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { TranscriptChapter } from '@/services/transcriptAnalyzer';
+import { parseCueTime } from '@/utils/cueEditing';
+import { formatChapterTime, normalizeChapters, validateYouTubeChapters } from '@/utils/youtubeChapters';
+
+interface ChapterEditorProps {
+  chapters: TranscriptChapter[];
+  duration: number;
+  onChange: (chapters: TranscriptChapter[]) => void;
+}
+
+export function ChapterEditor({ chapters, duration, onChange }: ChapterEditorProps) {
+  const errors = validateYouTubeChapters(chapters, duration);
+
+  const updateStart = (index: number, input: HTMLInputElement) => {
+    const start = parseCueTime(input.value);
+    if (start === null) {
+      input.value = formatChapterTime(chapters[index].start);
+      return;
+    }
+    if (start === chapters[index].start) return;
+
+    onChange(normalizeChapters(
+      chapters.map((chapter, i) => (i === index ? { ...chapter, start } : chapter)),
+      duration
+    ));
+  };
+
+  const updateTitle = (index: number, title: string) => {
+    onChange(chapters.map((chapter, i) => (i === index ? { ...chapter, title } : chapter)));
+  };
+
+  const removeChapter = (index: number) => {
+    onChange(normalizeChapters(chapters.filter((_, i) => i !== index), duration));
+  };
+
+  // New chapters go halfway through the longest existing one
+  const addChapter = () => {
+    const longest = chapters.reduce<TranscriptChapter | null>(
+      (best, chapter) => (!best || chapter.end - chapter.start > best.end - best.start ? chapter : best),
+      null
+    );
+    const start = longest ? Math.floor((longest.start + longest.end) / 2) : 0;
+
+    onChange(normalizeChapters([...chapters, { start, end: duration, title: 'New chapter' }], duration));
+  };
+
+  return (
+    <div className="space-y-3">
+      {chapters.map((chapter, index) => (
+        <div key={`${index}-${chapter.start}`} className="flex items-center gap-2">
+          <Input
+            defaultValue={formatChapterTime(chapter.start)}
+            onBlur={(e) => updateStart(index, e.target)}
+            className="w-24 font-mono text-sm"
+            aria-label={`Chapter ${index + 1} start`}
+          />
+          <Input
+            value={chapter.title}
+            onChange={(e) => updateTitle(index, e.target.value)}
+            placeholder="Chapter title"
+            className="flex-1"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeChapter(index)}
+            className="h-8 w-8 p-0"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addChapter}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add chapter
+      </Button>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { AlertTriangle, AlertCircle, Info } from 'lucide-react';
+import { ConstraintViolation } from '@/utils/metadataConstraints';
+
+interface ConstraintWarningsProps {
+  violations: ConstraintViolation[];
+  field?: ConstraintViolation['field']; // only show violations for one field
+}
+
+const SEVERITY_STYLES = {
+  error: { icon: AlertCircle, className: 'text-destructive' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-700' },
+  info: { icon: Info, className: 'text-muted-foreground' }
+};
+
+export function ConstraintWarnings({ violations, field }: ConstraintWarningsProps) {
+  const shown = field ? violations.filter(v => v.field === field) : violations;
+  if (shown.length === 0) return null;
+
+  return (
+    <ul className="space-y-1 mt-1">
+      {shown.map((violation, index) => {
+        const { icon: Icon, className } = SEVERITY_STYLES[violation.severity];
+        return (
+          <li key={index} className={`flex items-start gap-1 text-xs ${className}`}>
+            <Icon className="h-3 w-3 mt-0.5 shrink-0" />
+            <span>{violation.message}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
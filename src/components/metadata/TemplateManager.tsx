@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { useMetadataTemplates } from '@/hooks/useMetadataTemplates';
+import { MetadataTemplate, TEMPLATE_VARIABLES } from '@/services/metadataTemplates';
+import { getPlatform, getPlatformLabel, getPlatforms } from '@/services/platformRegistry';
+import { metadataGenerator } from '@/services/metadataGenerator';
+import { validateTemplate, TEMPLATE_FILTERS } from '@/utils/templateEngine';
+
+const BUILT_IN_VALUE = 'built-in';
+
+// Sample values used to preview templates while editing
+const PREVIEW_CONTEXT = {
+  creator: 'Alex Rivera',
+  topic: 'Home Espresso',
+  language: 'en',
+  keywords: ['coffee', 'espresso', 'barista'],
+  summary: 'Dialing in espresso starts with the grind. A finer grind slows the shot and adds body.',
+  hook: 'Dialing in espresso starts with the grind.',
+  lead: 'Grind Size',
+  keyPhrases: ['grind size', 'shot time', 'milk texture'],
+  chapters: [
+    { time: '00:00', title: 'Grind Size', text: '00:00 Grind Size' },
+    { time: '01:45', title: 'Pulling The Shot', text: '01:45 Pulling The Shot' },
+    { time: '04:10', title: 'Milk Texture', text: '04:10 Milk Texture' }
+  ]
+};
+
+const emptyTemplate = (platform: string): MetadataTemplate => ({
+  platform,
+  name: '',
+  titleTemplate: getPlatform(platform)!.defaultTemplate.titleTemplate,
+  descriptionTemplate: getPlatform(platform)!.defaultTemplate.descriptionTemplate
+});
+
+export function TemplateManager() {
+  const { toast } = useToast();
+  const { templates, saveTemplate, deleteTemplate, setDefaultTemplate } = useMetadataTemplates();
+  const [editing, setEditing] = useState<MetadataTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const titleError = editing ? validateTemplate(editing.titleTemplate) : null;
+  const descriptionError = editing ? validateTemplate(editing.descriptionTemplate) : null;
+
+  const preview = (() => {
+    if (!editing || titleError || descriptionError) return null;
+    return metadataGenerator.renderTemplate(editing, { ...PREVIEW_CONTEXT, platform: getPlatformLabel(editing.platform) });
+  })();
+
+  const handleSave = async () => {
+    if (!editing || titleError || descriptionError || !editing.name.trim()) return;
+
+    setSaving(true);
+    try {
+      await saveTemplate({ ...editing, name: editing.name.trim() });
+      setEditing(null);
+      toast({
+        title: "Template saved",
+        description: `"${editing.name.trim()}" is ready to use.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving template",
+        description: "Failed to save your template.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: MetadataTemplate) => {
+    try {
+      await deleteTemplate(template.id!);
+      toast({
+        title: "Template deleted",
+        description: template.isDefault
+          ? `${getPlatformLabel(template.platform)} will use the built-in template.`
+          : `"${template.name}" has been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting template",
+        description: "Failed to delete the template.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDefaultChange = async (platform: string, value: string) => {
+    try {
+      await setDefaultTemplate(platform, value === BUILT_IN_VALUE ? null : value);
+    } catch (error) {
+      toast({
+        title: "Error updating default",
+        description: "Failed to change the default template.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Metadata Templates</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setEditing(emptyTemplate(getPlatforms()[0].key))}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Write titles and descriptions in your own voice. Each platform uses its default template when generating metadata.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {getPlatforms().map(platform => {
+          const platformTemplates = templates.filter(t => t.platform === platform.key);
+          const selected = platformTemplates.find(t => t.isDefault);
+
+          return (
+            <div key={platform.key} className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Label className="text-base">{platform.label}</Label>
+                <Select
+                  value={selected?.id || BUILT_IN_VALUE}
+                  onValueChange={(value) => handleDefaultChange(platform.key, value)}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BUILT_IN_VALUE}>
+                      Built-in: {platform.defaultTemplate.name}
+                    </SelectItem>
+                    {platformTemplates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {platformTemplates.map(template => (
+                <div key={template.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {template.name}
+                      {template.isDefault && (
+                        <span className="ml-2 text-xs bg-primary/10 text-primary px-2 py-0.5 rounded">Default</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{template.titleTemplate}</p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(template)}>
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Template' : 'New Template'}</DialogTitle>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    placeholder="e.g. Brand voice"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Platform</Label>
+                  <Select
+                    value={editing.platform}
+                    onValueChange={(platform) => setEditing({ ...editing, platform })}
+                    disabled={!!editing.id}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getPlatforms().map(platform => (
+                        <SelectItem key={platform.key} value={platform.key}>{platform.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-title">Title template</Label>
+                <Input
+                  id="template-title"
+                  value={editing.titleTemplate}
+                  onChange={(e) => setEditing({ ...editing, titleTemplate: e.target.value })}
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description template</Label>
+                <Textarea
+                  id="template-description"
+                  value={editing.descriptionTemplate}
+                  onChange={(e) => setEditing({ ...editing, descriptionTemplate: e.target.value })}
+                  rows={12}
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              {(titleError || descriptionError) && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {titleError && <p>Title: {titleError}</p>}
+                    {descriptionError && <p>Description: {descriptionError}</p>}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>
+                  Variables: {TEMPLATE_VARIABLES.map(v => (
+                    <code key={v.name} title={v.description} className="mr-1">{`{{${v.name}}}`}</code>
+                  ))}
+                </p>
+                <p>
+                  Blocks: <code>{'{{#if summary}}…{{else}}…{{/if}}'}</code>, <code>{'{{#unless keywords}}…{{/unless}}'}</code>,{' '}
+                  <code>{'{{#each keyPhrases}}• {{this}}{{/each}}'}</code>
+                </p>
+                <p>Filters: {TEMPLATE_FILTERS.map(f => <code key={f} className="mr-1">{`| ${f}`}</code>)}</p>
+              </div>
+
+              {preview && (
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium text-muted-foreground">PREVIEW</Label>
+                  <div className="p-3 bg-muted rounded space-y-2">
+                    <p className="font-medium text-sm">{preview.title}</p>
+                    <p className="text-sm whitespace-pre-wrap">{preview.description}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !editing?.name.trim() || !!titleError || !!descriptionError}
+            >
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ASSStyle } from '@/utils/assGenerator';
+
+interface ASSStyleControlsProps {
+  style: ASSStyle;
+  onChange: (style: ASSStyle) => void;
+}
+
+// Players render ASS with fonts installed on the viewer's machine, so offer widely available ones
+const FONTS = ['Arial', 'Verdana', 'Trebuchet MS', 'Tahoma', 'Georgia', 'Times New Roman', 'Courier New', 'Impact'];
+
+// Bottom, middle and top centre on the numpad layout used by ASS alignment
+const POSITIONS = [
+  { alignment: 2, label: 'Bottom' },
+  { alignment: 5, label: 'Middle' },
+  { alignment: 8, label: 'Top' }
+];
+
+export function ASSStyleControls({ style, onChange }: ASSStyleControlsProps) {
+  const update = (changes: Partial<ASSStyle>) => onChange({ ...style, ...changes });
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+      <div>
+        <Label htmlFor="ass-font">Font</Label>
+        <Select value={style.fontName} onValueChange={(fontName) => update({ fontName })}>
+          <SelectTrigger id="ass-font">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FONTS.map((font) => (
+              <SelectItem key={font} value={font}>
+                <span style={{ fontFamily: font }}>{font}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor="ass-font-size">Size</Label>
+        <Input
+          id="ass-font-size"
+          type="number"
+          min={12}
+          max={200}
+          value={style.fontSize}
+          onChange={(e) => {
+            const fontSize = Number(e.target.value);
+            if (fontSize > 0) update({ fontSize });
+          }}
+        />
+      </div>
+      <div>
+        <Label htmlFor="ass-primary-colour">Text colour</Label>
+        <Input
+          id="ass-primary-colour"
+          type="color"
+          value={style.primaryColour}
+          onChange={(e) => update({ primaryColour: e.target.value })}
+          className="p-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="ass-outline-colour">Outline colour</Label>
+        <Input
+          id="ass-outline-colour"
+          type="color"
+          value={style.outlineColour}
+          onChange={(e) => update({ outlineColour: e.target.value })}
+          className="p-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="ass-position">Position</Label>
+        <Select value={String(style.alignment)} onValueChange={(value) => update({ alignment: Number(value) })}>
+          <SelectTrigger id="ass-position">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {POSITIONS.map((position) => (
+              <SelectItem key={position.alignment} value={String(position.alignment)}>
+                {position.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
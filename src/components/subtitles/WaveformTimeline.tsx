@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from 'react';
+import { TranscriptionSegment } from '@/services/transcriptionService';
+
+interface WaveformTimelineProps {
+  peaks: Float32Array | null;
+  peaksPerSecond: number;
+  cues: TranscriptionSegment[];
+  currentTime: number;
+  selectedIndex: number | null;
+  viewStart: number;
+  viewDuration: number;
+  onSeek: (time: number) => void;
+  onSelectCue: (index: number) => void;
+  onRetimeCue: (index: number, start: number, end: number) => void;
+  onRetimeEnd?: () => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  index: number;
+  mode: DragMode;
+  originX: number;
+  originStart: number;
+  originEnd: number;
+}
+
+export function WaveformTimeline({
+  peaks,
+  peaksPerSecond,
+  cues,
+  currentTime,
+  selectedIndex,
+  viewStart,
+  viewDuration,
+  onSeek,
+  onSelectCue,
+  onRetimeCue,
+  onRetimeEnd
+}: WaveformTimelineProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [width, setWidth] = useState(0);
+
+  // Track container width so the canvas stays crisp when resized
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the visible slice of the waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const height = canvas.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, height);
+    if (!peaks) return;
+
+    ctx.fillStyle = getComputedStyle(canvas).color;
+    const secondsPerPixel = viewDuration / width;
+
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((viewStart + x * secondsPerPixel) * peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor((viewStart + (x + 1) * secondsPerPixel) * peaksPerSecond));
+
+      let peak = 0;
+      for (let i = from; i < to && i < peaks.length; i++) {
+        if (peaks[i] > peak) peak = peaks[i];
+      }
+
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+    }
+  }, [peaks, peaksPerSecond, viewStart, viewDuration, width]);
+
+  // Drag handling lives on window so the pointer can leave the cue while dragging
+  useEffect(() => {
+    const handleMove = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || width === 0) return;
+
+      const delta = ((event.clientX - drag.originX) / width) * viewDuration;
+
+      if (drag.mode === 'move') {
+        const start = Math.max(0, drag.originStart + delta);
+        onRetimeCue(drag.index, start, start + (drag.originEnd - drag.originStart));
+      } else if (drag.mode === 'start') {
+        onRetimeCue(drag.index, Math.min(drag.originStart + delta, drag.originEnd), drag.originEnd);
+      } else {
+        onRetimeCue(drag.index, drag.originStart, drag.originEnd + delta);
+      }
+    };
+
+    const handleUp = () => {
+      if (dragRef.current) {
+        dragRef.current = null;
+        onRetimeEnd?.();
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [width, viewDuration, onRetimeCue, onRetimeEnd]);
+
+  const startDrag = (event: React.PointerEvent, index: number, mode: DragMode) => {
+    event.stopPropagation();
+    event.preventDefault();
+    onSelectCue(index);
+    dragRef.current = {
+      index,
+      mode,
+      originX: event.clientX,
+      originStart: cues[index].start,
+      originEnd: cues[index].end
+    };
+  };
+
+  const handleSeek = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(viewStart + ((event.clientX - rect.left) / rect.width) * viewDuration);
+  };
+
+  const toPercent = (time: number) => ((time - viewStart) / viewDuration) * 100;
+  const viewEnd = viewStart + viewDuration;
+  const playheadVisible = currentTime >= viewStart && currentTime <= viewEnd;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-32 rounded-md border bg-muted/40 overflow-hidden select-none cursor-crosshair"
+      onPointerDown={handleSeek}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full text-muted-foreground/60" />
+
+      {cues.map((cue, index) => {
+        if (cue.end < viewStart || cue.start > viewEnd) return null;
+
+        const isSelected = index === selectedIndex;
+        return (
+          <div
+            key={index}
+            className={`absolute top-2 bottom-2 rounded border text-xs overflow-hidden cursor-grab ${
+              isSelected
+                ? 'bg-primary/30 border-primary z-10'
+                : 'bg-primary/10 border-primary/40 hover:bg-primary/20'
+            }`}
+            style={{
+              left: `${toPercent(cue.start)}%`,
+              width: `${Math.max(0.2, toPercent(cue.end) - toPercent(cue.start))}%`
+            }}
+            onPointerDown={(event) => startDrag(event, index, 'move')}
+            title={cue.text}
+          >
+            <div
+              className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-primary/60"
+              onPointerDown={(event) => startDrag(event, index, 'start')}
+            />
+            <span className="block px-2 py-1 truncate pointer-events-none">{cue.text}</span>
+            <div
+              className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-primary/60"
+              onPointerDown={(event) => startDrag(event, index, 'end')}
+            />
+          </div>
+        );
+      })}
+
+      {playheadVisible && (
+        <div
+          className="absolute top-0 bottom-0 w-px bg-destructive z-20 pointer-events-none"
+          style={{ left: `${toPercent(currentTime)}%` }}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
+import { queueManager } from '@/services/queueManager';
+import { QueueItemStatus } from '@/services/queueStateMachine';
 
 export interface BatchJob {
   id: string;
@@ -9,7 +11,7 @@ export interface BatchJob {
   total_items: number;
   completed_items: number;
   failed_items: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   job_type: string;
   job_config: any;
   started_at?: string;
@@ -23,7 +25,7 @@ export interface QueueItem {
   video_id?: string;
   video_name?: string;
   priority: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'retrying';
+  status: QueueItemStatus;
   retry_count: number;
   max_retries: number;
   error_message?: string;
@@ -59,7 +61,6 @@ export const useBatchProcessing = () => {
   });
 
   const realtimeChannelRef = useRef<any>(null);
-  const processingQueueRef = useRef<Map<string, boolean>>(new Map());
 
   // Fetch batch jobs
   const fetchBatchJobs = useCallback(async () => {
@@ -140,8 +141,8 @@ export const useBatchProcessing = () => {
       // Upload videos and create queue items
       const queueItemPromises = videoFiles.map(async (file, index) => {
         try {
-          // Upload video file
-          const fileName = `${Date.now()}-${file.name}`;
+          // Upload video file into the user's folder, as the videos bucket policies require
+          const fileName = `${user.id}/${Date.now()}-${file.name}`;
           const { data: uploadData, error: uploadError } = await supabase.storage
             .from('videos')
             .upload(fileName, file);
@@ -224,86 +225,16 @@ export const useBatchProcessing = () => {
     }
   }, [user, toast, fetchBatchJobs]);
 
-  // Process queue items with error recovery
+  // Process queue items with error recovery. The item is claimed through the queue manager's
+  // lease, so another tab or worker can't process it at the same time.
   const processQueueItem = useCallback(async (
     queueItemId: string,
     processor: (item: QueueItem) => Promise<void>
   ) => {
-    if (processingQueueRef.current.has(queueItemId)) return;
-
-    processingQueueRef.current.set(queueItemId, true);
-
     try {
-      // Get current queue item
-      const { data: item, error: itemError } = await supabase
-        .from('queue_items')
-        .select('*')
-        .eq('id', queueItemId)
-        .single();
-
-      if (itemError || !item) throw new Error('Queue item not found');
-
-      // Update status to processing
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'processing',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', queueItemId);
-
-      // Process the item
-      await processor(item as QueueItem);
-
-      // Mark as completed
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'completed',
-          progress: 100,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', queueItemId);
-
+      await queueManager.processQueueItem(queueItemId, (item) => processor(item as unknown as QueueItem));
     } catch (error) {
       console.error(`Error processing queue item ${queueItemId}:`, error);
-      
-      // Get current retry count
-      const { data: currentItem } = await supabase
-        .from('queue_items')
-        .select('retry_count, max_retries')
-        .eq('id', queueItemId)
-        .single();
-
-      const retryCount = (currentItem?.retry_count || 0) + 1;
-      const maxRetries = currentItem?.max_retries || 3;
-
-      if (retryCount <= maxRetries) {
-        // Schedule retry
-        await supabase
-          .from('queue_items')
-          .update({
-            status: 'retrying',
-            retry_count: retryCount,
-            error_message: error instanceof Error ? error.message : 'Unknown error'
-          })
-          .eq('id', queueItemId);
-
-        // Retry after a delay
-        setTimeout(() => {
-          processingQueueRef.current.delete(queueItemId);
-          processQueueItem(queueItemId, processor);
-        }, Math.pow(2, retryCount) * 1000); // Exponential backoff
-      } else {
-        // Mark as failed
-        await supabase
-          .from('queue_items')
-          .update({
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : 'Unknown error'
-          })
-          .eq('id', queueItemId);
-      }
     } finally {
       // Update batch job progress
       const queueItem = await supabase
@@ -317,26 +248,13 @@ export const useBatchProcessing = () => {
           _batch_job_id: queueItem.data.batch_job_id
         });
       }
-
-      processingQueueRef.current.delete(queueItemId);
     }
   }, []);
 
   // Cancel batch job
   const cancelBatchJob = useCallback(async (batchJobId: string) => {
     try {
-      // Update batch job status
-      await supabase
-        .from('batch_jobs')
-        .update({ status: 'cancelled' })
-        .eq('id', batchJobId);
-
-      // Cancel pending queue items
-      await supabase
-        .from('queue_items')
-        .update({ status: 'cancelled' })
-        .eq('batch_job_id', batchJobId)
-        .in('status', ['pending', 'retrying']);
+      await queueManager.cancelBatchJob(batchJobId);
 
       toast({
         title: "Batch Job Cancelled",
@@ -357,15 +275,7 @@ export const useBatchProcessing = () => {
   // Retry failed items
   const retryFailedItems = useCallback(async (batchJobId: string) => {
     try {
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'pending',
-          retry_count: 0,
-          error_message: null
-        })
-        .eq('batch_job_id', batchJobId)
-        .eq('status', 'failed');
+      await queueManager.retryFailedItems(batchJobId);
 
       toast({
         title: "Retry Initiated",
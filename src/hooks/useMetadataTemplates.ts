@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+import { MetadataTemplate, MetadataTemplateSet } from '@/services/metadataTemplates';
+
+export interface MetadataTemplateRecord extends MetadataTemplate {
+  id: string;
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+const toTemplateRecord = (row: Tables<'metadata_templates'>): MetadataTemplateRecord => ({
+  id: row.id,
+  platform: row.platform,
+  name: row.name,
+  titleTemplate: row.title_template,
+  descriptionTemplate: row.description_template,
+  isDefault: row.is_default,
+  updatedAt: row.updated_at
+});
+
+export const useMetadataTemplates = () => {
+  const [templates, setTemplates] = useState<MetadataTemplateRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('metadata_templates')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('platform')
+        .order('name');
+
+      if (error) throw error;
+      setTemplates((data || []).map(toTemplateRecord));
+    } catch (error) {
+      console.error('Error fetching metadata templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Create a template, or update it when it already has an id
+  const saveTemplate = async (template: MetadataTemplate): Promise<MetadataTemplateRecord> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const values = {
+        platform: template.platform,
+        name: template.name,
+        title_template: template.titleTemplate,
+        description_template: template.descriptionTemplate
+      };
+
+      const { data, error } = template.id
+        ? await supabase.from('metadata_templates').update(values).eq('id', template.id).select().single()
+        : await supabase.from('metadata_templates').insert({ ...values, user_id: user.id }).select().single();
+
+      if (error) throw error;
+
+      await fetchTemplates();
+      return toTemplateRecord(data);
+    } catch (error) {
+      console.error('Error saving metadata template:', error);
+      throw error;
+    }
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    try {
+      const { error } = await supabase
+        .from('metadata_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting metadata template:', error);
+      throw error;
+    }
+  };
+
+  // Make a template the platform's default; pass null to go back to the built-in template
+  const setDefaultTemplate = async (platform: string, templateId: string | null) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      // Clear the current default first so the one-default-per-platform index is never violated
+      const { error: clearError } = await supabase
+        .from('metadata_templates')
+        .update({ is_default: false })
+        .eq('user_id', user.id)
+        .eq('platform', platform)
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      if (templateId) {
+        const { error } = await supabase
+          .from('metadata_templates')
+          .update({ is_default: true })
+          .eq('id', templateId);
+
+        if (error) throw error;
+      }
+
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error setting default metadata template:', error);
+      throw error;
+    }
+  };
+
+  // The selected template for each platform, ready to pass to the metadata generator
+  const defaultTemplates = useMemo<MetadataTemplateSet>(
+    () => Object.fromEntries(templates.filter(t => t.isDefault).map(t => [t.platform, t])),
+    [templates]
+  );
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  return {
+    templates,
+    loading,
+    defaultTemplates,
+    fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+    setDefaultTemplate
+  };
+};
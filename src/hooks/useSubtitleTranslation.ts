@@ -0,0 +1,95 @@
+import { useState, useCallback, useRef } from 'react';
+import { TranslationService, TranslationProgress } from '@/services/translationService';
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { useTranscripts, SubtitleTrackRecord } from './useTranscripts';
+import { useToast } from './use-toast';
+
+export const useSubtitleTranslation = () => {
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translationProgress, setTranslationProgress] = useState<TranslationProgress | null>(null);
+  const { saveSubtitleTrack } = useTranscripts();
+  const { toast } = useToast();
+
+  const translationServiceRef = useRef<TranslationService | null>(null);
+
+  const initializeService = useCallback(() => {
+    if (!translationServiceRef.current) {
+      translationServiceRef.current = new TranslationService((progress) => {
+        setTranslationProgress(progress);
+      });
+    }
+    return translationServiceRef.current;
+  }, []);
+
+  // Translate segments into each target language and save every translation as its own subtitle track
+  const translateSubtitles = useCallback(async (
+    videoId: string,
+    segments: TranscriptionSegment[],
+    options: { sourceLanguage: string; targetLanguages: string[]; transcriptId?: string }
+  ): Promise<SubtitleTrackRecord[]> => {
+    const service = initializeService();
+    const languages = service.getTranslationLanguages();
+    const saved: SubtitleTrackRecord[] = [];
+
+    setIsTranslating(true);
+    setTranslationProgress(null);
+
+    try {
+      for (const targetLanguage of options.targetLanguages) {
+        const translated = await service.translateSegments(segments, {
+          sourceLanguage: options.sourceLanguage,
+          targetLanguage
+        });
+        const name = languages.find(lang => lang.code === targetLanguage)?.name || targetLanguage;
+
+        saved.push(await saveSubtitleTrack(videoId, translated, {
+          language: targetLanguage,
+          label: `${name} (translated)`,
+          transcriptId: options.transcriptId
+        }));
+      }
+
+      toast({
+        title: "Translation Complete",
+        description: `Saved subtitles in ${saved.length} additional language${saved.length === 1 ? '' : 's'}.`,
+      });
+      return saved;
+    } catch (error) {
+      console.error('Translation error:', error);
+      toast({
+        title: "Translation Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive",
+      });
+      return saved;
+    } finally {
+      setIsTranslating(false);
+      setTranslationProgress(null);
+    }
+  }, [initializeService, saveSubtitleTrack, toast]);
+
+  const getTranslationLanguages = useCallback(() => {
+    return initializeService().getTranslationLanguages();
+  }, [initializeService]);
+
+  const canTranslate = useCallback((sourceLanguage: string, targetLanguage: string) => {
+    return initializeService().canTranslate(sourceLanguage, targetLanguage);
+  }, [initializeService]);
+
+  // Cleanup
+  const dispose = useCallback(() => {
+    if (translationServiceRef.current) {
+      translationServiceRef.current.dispose();
+      translationServiceRef.current = null;
+    }
+  }, []);
+
+  return {
+    isTranslating,
+    translationProgress,
+    translateSubtitles,
+    getTranslationLanguages,
+    canTranslate,
+    dispose
+  };
+};
@@ -1,18 +1,33 @@
 import { useState, useCallback, useRef } from 'react';
-import { TranscriptionService, TranscriptionResult, TranscriptionProgress } from '@/services/transcriptionService';
-import { SRTGenerator } from '@/utils/srtGenerator';
+import {
+  TranscriptionService,
+  TranscriptionResult,
+  TranscriptionProgress,
+  TranscriptionSegment,
+  WhisperModelOptions
+} from '@/services/transcriptionService';
+import { SRTGenerator, SubtitleFormat } from '@/utils/srtGenerator';
+import { SegmentationOptions } from '@/utils/cueSegmenter';
+import { ASSStyle } from '@/utils/assGenerator';
+import { downloadSubtitles } from '@/utils/subtitleExport';
+import { isAbortError } from '@/utils/abort';
 import { useToast } from './use-toast';
 
 export interface TranscriptionOptions {
   language?: string;
   returnSegments?: boolean;
   chunkDuration?: number;
+  wordTimestamps?: boolean;
+  model?: WhisperModelOptions;
+  signal?: AbortSignal;
 }
 
 export const useTranscription = () => {
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcriptionProgress, setTranscriptionProgress] = useState<TranscriptionProgress | null>(null);
   const [transcriptionResult, setTranscriptionResult] = useState<TranscriptionResult | null>(null);
+  // Segments transcribed so far in the running transcription, in order
+  const [partialSegments, setPartialSegments] = useState<TranscriptionSegment[]>([]);
   const { toast } = useToast();
   
   const transcriptionServiceRef = useRef<TranscriptionService | null>(null);
@@ -26,17 +41,22 @@ export const useTranscription = () => {
     return transcriptionServiceRef.current;
   }, []);
 
+  const appendPartial = useCallback((segments: TranscriptionSegment[]) => {
+    setPartialSegments(prev => [...prev, ...segments]);
+  }, []);
+
   const transcribeAudio = useCallback(async (
-    audioBlob: Blob,
+    audio: Blob | Float32Array,
     options: TranscriptionOptions = {}
   ): Promise<TranscriptionResult | null> => {
     setIsTranscribing(true);
     setTranscriptionResult(null);
     setTranscriptionProgress(null);
+    setPartialSegments([]);
 
     try {
       const service = initializeService();
-      const result = await service.transcribeAudio(audioBlob, options);
+      const result = await service.transcribeAudio(audio, { ...options, onPartial: appendPartial });
       
       setTranscriptionResult(result);
       toast({
@@ -46,6 +66,13 @@ export const useTranscription = () => {
       
       return result;
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Transcription Cancelled",
+          description: "The transcription was stopped.",
+        });
+        return null;
+      }
       console.error('Transcription error:', error);
       toast({
         title: "Transcription Failed",
@@ -57,7 +84,7 @@ export const useTranscription = () => {
       setIsTranscribing(false);
       setTranscriptionProgress(null);
     }
-  }, [initializeService, toast]);
+  }, [initializeService, appendPartial, toast]);
 
   const transcribeVideo = useCallback(async (
     videoFile: File,
@@ -66,10 +93,11 @@ export const useTranscription = () => {
     setIsTranscribing(true);
     setTranscriptionResult(null);
     setTranscriptionProgress(null);
+    setPartialSegments([]);
 
     try {
       const service = initializeService();
-      const result = await service.transcribeVideoFile(videoFile, options);
+      const result = await service.transcribeVideoFile(videoFile, { ...options, onPartial: appendPartial });
       
       setTranscriptionResult(result);
       toast({
@@ -79,6 +107,13 @@ export const useTranscription = () => {
       
       return result;
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Transcription Cancelled",
+          description: "The transcription was stopped.",
+        });
+        return null;
+      }
       console.error('Video transcription error:', error);
       toast({
         title: "Video Transcription Failed",
@@ -90,11 +125,14 @@ export const useTranscription = () => {
       setIsTranscribing(false);
       setTranscriptionProgress(null);
     }
-  }, [initializeService, toast]);
+  }, [initializeService, appendPartial, toast]);
 
   const generateSRT = useCallback((
     result: TranscriptionResult | null = transcriptionResult,
-    filename: string = 'subtitles'
+    filename: string = 'subtitles',
+    format: SubtitleFormat = 'srt',
+    segmentation: SegmentationOptions = {},
+    assStyle?: ASSStyle
   ) => {
     if (!result) {
       toast({
@@ -106,17 +144,16 @@ export const useTranscription = () => {
     }
 
     try {
-      const srtContent = SRTGenerator.generateSRT(result.segments);
-      SRTGenerator.downloadSRT(srtContent, filename);
+      downloadSubtitles(result.segments, format, filename, segmentation, assStyle);
       
       toast({
-        title: "SRT Downloaded",
+        title: `${format.toUpperCase()} Downloaded`,
         description: "Subtitle file has been downloaded successfully.",
       });
     } catch (error) {
-      console.error('SRT generation error:', error);
+      console.error(`${format.toUpperCase()} generation error:`, error);
       toast({
-        title: "SRT Generation Failed",
+        title: `${format.toUpperCase()} Generation Failed`,
         description: "Failed to generate subtitle file.",
         variant: "destructive",
       });
@@ -154,6 +191,7 @@ export const useTranscription = () => {
   const clearTranscription = useCallback(() => {
     setTranscriptionResult(null);
     setTranscriptionProgress(null);
+    setPartialSegments([]);
   }, []);
 
   // Cleanup
@@ -169,6 +207,7 @@ export const useTranscription = () => {
     isTranscribing,
     transcriptionProgress,
     transcriptionResult,
+    partialSegments,
     
     // Actions
     transcribeAudio,
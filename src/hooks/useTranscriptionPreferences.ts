@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import {
+  DEFAULT_WHISPER_MODEL,
+  WhisperModelOptions,
+  WhisperModelSize,
+  WhisperQuantization
+} from '@/services/transcriptionService';
+
+// The user's Whisper model choice, stored on their profile so it follows them between devices
+export const useTranscriptionPreferences = () => {
+  const [modelOptions, setModelOptions] = useState<WhisperModelOptions>(DEFAULT_WHISPER_MODEL);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('transcription_model, transcription_english_only, transcription_quantization')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setModelOptions({
+          size: data.transcription_model as WhisperModelSize,
+          englishOnly: data.transcription_english_only,
+          quantization: data.transcription_quantization as WhisperQuantization
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching transcription preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Apply the choice immediately and save it in the background
+  const updateModelOptions = async (changes: Partial<WhisperModelOptions>) => {
+    const next = { ...modelOptions, ...changes };
+    setModelOptions(next);
+
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          transcription_model: next.size,
+          transcription_english_only: next.englishOnly,
+          transcription_quantization: next.quantization
+        })
+        .eq('id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving transcription preferences:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  return {
+    modelOptions,
+    loading,
+    updateModelOptions
+  };
+};
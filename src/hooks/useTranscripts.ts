@@ -0,0 +1,139 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { TranscriptionResult, TranscriptionSegment } from '@/services/transcriptionService';
+import { videoPersistence } from '@/services/videoPersistence';
+
+export interface TranscriptRecord {
+  id: string;
+  video_id: string;
+  version: number;
+  language: string | null;
+  model_name: string | null;
+  text: string;
+  segments: TranscriptionSegment[];
+  created_at: string;
+}
+
+export interface SubtitleTrackRecord {
+  id: string;
+  video_id: string;
+  transcript_id: string | null;
+  language: string;
+  label: string | null;
+  version: number;
+  segments: TranscriptionSegment[];
+  created_at: string;
+}
+
+const toTranscriptRecord = (row: Tables<'transcripts'>): TranscriptRecord => ({
+  id: row.id,
+  video_id: row.video_id,
+  version: row.version,
+  language: row.language,
+  model_name: row.model_name,
+  text: row.text,
+  segments: (row.segments as unknown as TranscriptionSegment[]) || [],
+  created_at: row.created_at
+});
+
+const toSubtitleTrackRecord = (row: Tables<'subtitle_tracks'>): SubtitleTrackRecord => ({
+  id: row.id,
+  video_id: row.video_id,
+  transcript_id: row.transcript_id,
+  language: row.language,
+  label: row.label,
+  version: row.version,
+  segments: (row.segments as unknown as TranscriptionSegment[]) || [],
+  created_at: row.created_at
+});
+
+// Keep only the newest version of each language's track
+export const latestTracksByLanguage = (tracks: SubtitleTrackRecord[]): SubtitleTrackRecord[] => {
+  const latest = new Map<string, SubtitleTrackRecord>();
+  for (const track of tracks) {
+    const current = latest.get(track.language);
+    if (!current || track.version > current.version) {
+      latest.set(track.language, track);
+    }
+  }
+  return Array.from(latest.values());
+};
+
+export const useTranscripts = () => {
+  // Save a subtitle track as the next version for its video and language
+  const saveSubtitleTrack = useCallback(async (
+    videoId: string,
+    segments: TranscriptionSegment[],
+    options: { language: string; label?: string; transcriptId?: string }
+  ): Promise<SubtitleTrackRecord> => {
+    try {
+      return toSubtitleTrackRecord(await videoPersistence.saveSubtitleTrack(videoId, segments, options));
+    } catch (error) {
+      console.error('Error saving subtitle track:', error);
+      throw error;
+    }
+  }, []);
+
+  // Save a transcription as the next transcript version and create its subtitle track
+  const saveTranscript = useCallback(async (
+    videoId: string,
+    result: TranscriptionResult
+  ): Promise<TranscriptRecord> => {
+    try {
+      return toTranscriptRecord(await videoPersistence.saveTranscript(videoId, result));
+    } catch (error) {
+      console.error('Error saving transcript:', error);
+      throw error;
+    }
+  }, []);
+
+  // Get all transcript versions for a video, newest first
+  const getTranscripts = useCallback(async (videoId: string): Promise<TranscriptRecord[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('transcripts')
+        .select('*')
+        .eq('video_id', videoId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(toTranscriptRecord);
+    } catch (error) {
+      console.error('Error fetching transcripts:', error);
+      throw error;
+    }
+  }, []);
+
+  const getLatestTranscript = useCallback(async (videoId: string): Promise<TranscriptRecord | null> => {
+    const transcripts = await getTranscripts(videoId);
+    return transcripts[0] || null;
+  }, [getTranscripts]);
+
+  // Get every subtitle track version for the given videos, newest first
+  const getSubtitleTracks = useCallback(async (videoIds: string[]): Promise<SubtitleTrackRecord[]> => {
+    if (videoIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('subtitle_tracks')
+        .select('*')
+        .in('video_id', videoIds)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(toSubtitleTrackRecord);
+    } catch (error) {
+      console.error('Error fetching subtitle tracks:', error);
+      throw error;
+    }
+  }, []);
+
+  return {
+    saveTranscript,
+    getTranscripts,
+    getLatestTranscript,
+    saveSubtitleTrack,
+    getSubtitleTracks
+  };
+};
@@ -1,8 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from './use-toast';
 import { useAuth } from './useAuth';
-import { metadataGenerator } from '@/services/metadataGenerator';
+import { TranscriptionResult } from '@/services/transcriptionService';
+import { videoPersistence } from '@/services/videoPersistence';
+import { TranscriptChapter } from '@/services/transcriptAnalyzer';
+import { MetadataTemplateSet } from '@/services/metadataTemplates';
 
 export interface VideoRecord {
   id: string;
@@ -18,6 +21,7 @@ export interface VideoRecord {
 
 export interface VideoMetadata {
   platform: string;
+  language: string;
   title: string | null;
   description: string | null;
   hashtags: string[] | null;
@@ -124,6 +128,30 @@ export const useVideos = () => {
     }
   };
 
+  // Get a playable URL for a stored video. Stable across renders so effects can depend on it.
+  const getVideoSource = useCallback(async (videoId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('videos')
+        .select('name, file_path, duration')
+        .eq('id', videoId)
+        .single();
+
+      if (error) throw error;
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from('videos')
+        .createSignedUrl(data.file_path, 60 * 60);
+
+      if (signError) throw signError;
+
+      return { name: data.name, duration: data.duration, url: signed.signedUrl };
+    } catch (error) {
+      console.error('Error fetching video source:', error);
+      throw error;
+    }
+  }, []);
+
   // Delete video and its metadata
   const deleteVideo = async (videoId: string) => {
     try {
@@ -164,50 +192,20 @@ export const useVideos = () => {
     creatorName: string, 
     videoTopic: string, 
     language: string = 'en',
-    keywords: string = ''
+    keywords: string = '',
+    options: { transcript?: TranscriptionResult; chapters?: TranscriptChapter[]; templates?: MetadataTemplateSet } = {}
   ) => {
-    try {
-      // Create generation record
-      const { error: genError } = await supabase
-        .from('generations')
-        .insert({
-          user_id: user?.id,
-          video_id: videoId,
-          type: 'metadata',
-          status: 'pending'
-        });
-
-      if (genError) throw genError;
+    if (!user) throw new Error('User not authenticated');
 
-      // Generate platform-specific metadata using the metadata generator
-      const generatedMetadata = metadataGenerator.generatePlatformMetadata({
+    try {
+      await videoPersistence.saveMetadata(user.id, videoId, {
         creatorName,
         videoTopic,
         language,
-        keywords
+        keywords,
+        ...options
       });
 
-      const metadataPromises = generatedMetadata.map(metadata => {
-        return supabase
-          .from('video_metadata')
-          .insert({
-            video_id: videoId,
-            platform: metadata.platform.toLowerCase(),
-            title: metadata.title,
-            description: metadata.description,
-            hashtags: metadata.hashtags
-          });
-      });
-
-      await Promise.all(metadataPromises);
-
-      // Update generation status
-      await supabase
-        .from('generations')
-        .update({ status: 'completed' })
-        .eq('video_id', videoId)
-        .eq('status', 'pending');
-
       return await getVideoMetadata(videoId);
     } catch (error) {
       console.error('Error generating metadata:', error);
@@ -225,6 +223,7 @@ export const useVideos = () => {
     fetchVideos,
     uploadVideo,
     getVideoMetadata,
+    getVideoSource,
     deleteVideo,
     generateMetadata
   };
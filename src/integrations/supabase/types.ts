@@ -109,12 +109,51 @@ export type Database = {
           },
         ]
       }
+      metadata_templates: {
+        Row: {
+          created_at: string
+          description_template: string
+          id: string
+          is_default: boolean
+          name: string
+          platform: string
+          title_template: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description_template: string
+          id?: string
+          is_default?: boolean
+          name: string
+          platform: string
+          title_template: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description_template?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          platform?: string
+          title_template?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           display_name: string | null
           id: string
+          transcription_english_only: boolean
+          transcription_model: string
+          transcription_quantization: string
           updated_at: string
         }
         Insert: {
@@ -122,6 +161,9 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id: string
+          transcription_english_only?: boolean
+          transcription_model?: string
+          transcription_quantization?: string
           updated_at?: string
         }
         Update: {
@@ -129,6 +171,9 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          transcription_english_only?: boolean
+          transcription_model?: string
+          transcription_quantization?: string
           updated_at?: string
         }
         Relationships: []
@@ -140,17 +185,20 @@ export type Database = {
           created_at: string
           error_message: string | null
           id: string
+          lease_expires_at: string | null
           max_retries: number
           metadata: Json | null
           priority: number
           processing_stage: string | null
           progress: number
+          retry_after: string | null
           retry_count: number
           stage_progress: number
           started_at: string | null
           status: string
           updated_at: string
           video_id: string | null
+          worker_id: string | null
         }
         Insert: {
           batch_job_id: string
@@ -158,17 +206,20 @@ export type Database = {
           created_at?: string
           error_message?: string | null
           id?: string
+          lease_expires_at?: string | null
           max_retries?: number
           metadata?: Json | null
           priority?: number
           processing_stage?: string | null
           progress?: number
+          retry_after?: string | null
           retry_count?: number
           stage_progress?: number
           started_at?: string | null
           status?: string
           updated_at?: string
           video_id?: string | null
+          worker_id?: string | null
         }
         Update: {
           batch_job_id?: string
@@ -176,17 +227,20 @@ export type Database = {
           created_at?: string
           error_message?: string | null
           id?: string
+          lease_expires_at?: string | null
           max_retries?: number
           metadata?: Json | null
           priority?: number
           processing_stage?: string | null
           progress?: number
+          retry_after?: string | null
           retry_count?: number
           stage_progress?: number
           started_at?: string | null
           status?: string
           updated_at?: string
           video_id?: string | null
+          worker_id?: string | null
         }
         Relationships: [
           {
@@ -205,6 +259,101 @@ export type Database = {
           },
         ]
       }
+      subtitle_tracks: {
+        Row: {
+          created_at: string
+          id: string
+          label: string | null
+          language: string
+          segments: Json
+          transcript_id: string | null
+          updated_at: string
+          version: number
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          language: string
+          segments?: Json
+          transcript_id?: string | null
+          updated_at?: string
+          version?: number
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          language?: string
+          segments?: Json
+          transcript_id?: string | null
+          updated_at?: string
+          version?: number
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtitle_tracks_transcript_id_fkey"
+            columns: ["transcript_id"]
+            isOneToOne: false
+            referencedRelation: "transcripts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtitle_tracks_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcripts: {
+        Row: {
+          created_at: string
+          id: string
+          language: string | null
+          model_name: string | null
+          segments: Json
+          text: string
+          updated_at: string
+          version: number
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          language?: string | null
+          model_name?: string | null
+          segments?: Json
+          text?: string
+          updated_at?: string
+          version?: number
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          language?: string | null
+          model_name?: string | null
+          segments?: Json
+          text?: string
+          updated_at?: string
+          version?: number
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcripts_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -236,6 +385,7 @@ export type Database = {
           description: string | null
           hashtags: string[] | null
           id: string
+          language: string
           platform: string
           title: string | null
           updated_at: string
@@ -247,6 +397,7 @@ export type Database = {
           description?: string | null
           hashtags?: string[] | null
           id?: string
+          language?: string
           platform: string
           title?: string | null
           updated_at?: string
@@ -258,6 +409,7 @@ export type Database = {
           description?: string | null
           hashtags?: string[] | null
           id?: string
+          language?: string
           platform?: string
           title?: string | null
           updated_at?: string
@@ -320,6 +472,62 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_next_queue_item: {
+        Args: {
+          _batch_job_id: string
+          _lease_seconds?: number
+          _worker_id: string
+        }
+        Returns: {
+          batch_job_id: string
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          id: string
+          lease_expires_at: string | null
+          max_retries: number
+          metadata: Json | null
+          priority: number
+          processing_stage: string | null
+          progress: number
+          retry_after: string | null
+          retry_count: number
+          stage_progress: number
+          started_at: string | null
+          status: string
+          updated_at: string
+          video_id: string | null
+          worker_id: string | null
+        }[]
+      }
+      claim_queue_item: {
+        Args: {
+          _lease_seconds?: number
+          _queue_item_id: string
+          _worker_id: string
+        }
+        Returns: {
+          batch_job_id: string
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          id: string
+          lease_expires_at: string | null
+          max_retries: number
+          metadata: Json | null
+          priority: number
+          processing_stage: string | null
+          progress: number
+          retry_after: string | null
+          retry_count: number
+          stage_progress: number
+          started_at: string | null
+          status: string
+          updated_at: string
+          video_id: string | null
+          worker_id: string | null
+        }[]
+      }
       get_batch_queue_items: {
         Args: { _batch_job_id: string }
         Returns: {
@@ -386,10 +594,19 @@ export type Database = {
           created_at: string
           description: string
           hashtags: string[]
+          language: string
           platform: string
           title: string
         }[]
       }
+      heartbeat_queue_item: {
+        Args: {
+          _lease_seconds?: number
+          _queue_item_id: string
+          _worker_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -397,6 +614,50 @@ export type Database = {
         }
         Returns: boolean
       }
+      release_expired_queue_leases: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      save_subtitle_track: {
+        Args: {
+          _label?: string
+          _language: string
+          _segments: Json
+          _transcript_id?: string
+          _video_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          label: string | null
+          language: string
+          segments: Json
+          transcript_id: string | null
+          updated_at: string
+          version: number
+          video_id: string
+        }
+      }
+      save_transcript: {
+        Args: {
+          _language?: string
+          _model_name?: string
+          _segments: Json
+          _text: string
+          _video_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          language: string | null
+          model_name: string | null
+          segments: Json
+          text: string
+          updated_at: string
+          version: number
+          video_id: string
+        }
+      }
       update_batch_job_progress: {
         Args: { _batch_job_id: string }
         Returns: undefined
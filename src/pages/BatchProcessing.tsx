@@ -17,6 +17,8 @@ import { useBatchProcessing } from '@/hooks/useBatchProcessing';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { queueManager } from '@/services/queueManager';
+import { processVideoQueueItem } from '@/services/browserVideoPipeline';
+import { VideoBatchConfig } from '@/services/videoBatchProcessor';
 
 export default function BatchProcessing() {
   const { user } = useAuth();
@@ -40,6 +42,9 @@ export default function BatchProcessing() {
   const [createJobForm, setCreateJobForm] = useState({
     name: '',
     description: '',
+    creatorName: '',
+    videoTopic: '',
+    keywords: '',
     files: [] as File[]
   });
 
@@ -52,29 +57,7 @@ export default function BatchProcessing() {
 
   // Set up queue manager processors
   useEffect(() => {
-    // Register video processing processor
-    queueManager.registerProcessor('video_processing', async (item, updateProgress) => {
-      try {
-        await updateProgress(10, 'Initializing');
-        
-        // Simulate video processing steps
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        await updateProgress(30, 'Extracting audio');
-        
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        await updateProgress(60, 'Generating transcription');
-        
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        await updateProgress(80, 'Creating metadata');
-        
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        await updateProgress(100, 'Complete');
-        
-      } catch (error) {
-        console.error('Processing error:', error);
-        throw error;
-      }
-    });
+    queueManager.registerProcessor('video_processing', processVideoQueueItem);
   }, []);
 
   const handleCreateJob = async () => {
@@ -93,13 +76,16 @@ export default function BatchProcessing() {
       maxRetries: 3,
       priority: 1,
       jobConfig: {
-        description: createJobForm.description
-      }
+        description: createJobForm.description,
+        creatorName: createJobForm.creatorName || undefined,
+        videoTopic: createJobForm.videoTopic || undefined,
+        keywords: createJobForm.keywords || undefined
+      } satisfies VideoBatchConfig
     });
 
     if (jobId) {
       setShowCreateDialog(false);
-      setCreateJobForm({ name: '', description: '', files: [] });
+      setCreateJobForm({ name: '', description: '', creatorName: '', videoTopic: '', keywords: '', files: [] });
       
       // Start processing the job
       setTimeout(() => {
@@ -129,7 +115,7 @@ export default function BatchProcessing() {
       await queueManager.pauseBatchJob(jobId);
       toast({
         title: "Job Paused",
-        description: "Batch processing has been paused.",
+        description: "No new items will start. Items in progress finish or stop at their next checkpoint.",
       });
     } catch (error) {
       toast({
@@ -140,6 +126,18 @@ export default function BatchProcessing() {
     }
   };
 
+  const handleResumeJob = async (jobId: string) => {
+    try {
+      await queueManager.resumeBatchJob(jobId);
+    } catch (error) {
+      toast({
+        title: "Resume Failed",
+        description: "Failed to resume the batch job.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleCancelJob = async (jobId: string) => {
     await cancelBatchJob(jobId);
   };
@@ -213,6 +211,37 @@ export default function BatchProcessing() {
                       />
                     </div>
                     
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="job-creator">Creator Name (Optional)</Label>
+                        <Input
+                          id="job-creator"
+                          value={createJobForm.creatorName}
+                          onChange={(e) => setCreateJobForm(prev => ({ ...prev, creatorName: e.target.value }))}
+                          placeholder="Defaults to your display name"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="job-topic">Video Topic (Optional)</Label>
+                        <Input
+                          id="job-topic"
+                          value={createJobForm.videoTopic}
+                          onChange={(e) => setCreateJobForm(prev => ({ ...prev, videoTopic: e.target.value }))}
+                          placeholder="Defaults to each file name"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="job-keywords">Keywords (Optional)</Label>
+                      <Input
+                        id="job-keywords"
+                        value={createJobForm.keywords}
+                        onChange={(e) => setCreateJobForm(prev => ({ ...prev, keywords: e.target.value }))}
+                        placeholder="Comma-separated keywords for the metadata"
+                      />
+                    </div>
+
                     <div>
                       <Label htmlFor="job-files">Video Files</Label>
                       <Input
@@ -321,6 +350,7 @@ export default function BatchProcessing() {
                       job={job}
                       onStart={handleStartJob}
                       onPause={handlePauseJob}
+                      onResume={handleResumeJob}
                       onCancel={handleCancelJob}
                       onRetry={handleRetryJob}
                       onViewDetails={handleViewDetails}
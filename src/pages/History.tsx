@@ -1,21 +1,32 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Download, Trash2, Copy, Play, Loader2 } from 'lucide-react';
+import { Search, Download, Trash2, Copy, Play, Loader2, Subtitles, Pencil, Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useVideos, VideoRecord, VideoMetadata } from '@/hooks/useVideos';
+import { useTranscripts, latestTracksByLanguage, SubtitleTrackRecord } from '@/hooks/useTranscripts';
+import { useSubtitleTranslation } from '@/hooks/useSubtitleTranslation';
+import { downloadSubtitles, downloadSubtitleTracks, SUBTITLE_FORMATS } from '@/utils/subtitleExport';
+import { getPlatformLabel, getPlatforms } from '@/services/platformRegistry';
+import { validatePlatformMetadata } from '@/utils/metadataConstraints';
+import { ConstraintWarnings } from '@/components/metadata/ConstraintWarnings';
 
 export default function History() {
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const { videos, loading, deleteVideo, getVideoMetadata } = useVideos();
+  const { getSubtitleTracks } = useTranscripts();
+  const { isTranslating, translationProgress, translateSubtitles, getTranslationLanguages, canTranslate } = useSubtitleTranslation();
   const [searchTerm, setSearchTerm] = useState('');
   const [videoMetadata, setVideoMetadata] = useState<Record<string, VideoMetadata[]>>({});
+  const [subtitleTracks, setSubtitleTracks] = useState<Record<string, SubtitleTrackRecord[]>>({});
+  const [translatingVideoId, setTranslatingVideoId] = useState<string | null>(null);
 
   // Load metadata for videos that have it
   useEffect(() => {
@@ -40,6 +51,50 @@ export default function History() {
     }
   }, [videos, getVideoMetadata, videoMetadata]);
 
+  // Load the latest subtitle track per language for all videos
+  useEffect(() => {
+    const loadSubtitleTracks = async () => {
+      try {
+        const tracks = await getSubtitleTracks(videos.map(video => video.id));
+        const tracksByVideo = tracks.reduce((acc, track) => {
+          (acc[track.video_id] = acc[track.video_id] || []).push(track);
+          return acc;
+        }, {} as Record<string, SubtitleTrackRecord[]>);
+
+        setSubtitleTracks(
+          Object.fromEntries(
+            Object.entries(tracksByVideo).map(([videoId, videoTracks]) => [videoId, latestTracksByLanguage(videoTracks)])
+          )
+        );
+      } catch (error) {
+        console.error('Error loading subtitle tracks:', error);
+      }
+    };
+
+    if (videos.length > 0) {
+      loadSubtitleTracks();
+    }
+  }, [videos, getSubtitleTracks]);
+
+  // Translate a track into another language and show the new track alongside the others
+  const translateTrack = async (track: SubtitleTrackRecord, targetLanguage: string) => {
+    setTranslatingVideoId(track.video_id);
+    try {
+      const saved = await translateSubtitles(track.video_id, track.segments, {
+        sourceLanguage: track.language,
+        targetLanguages: [targetLanguage],
+        transcriptId: track.transcript_id || undefined
+      });
+
+      setSubtitleTracks(prev => ({
+        ...prev,
+        [track.video_id]: latestTracksByLanguage([...(prev[track.video_id] || []), ...saved])
+      }));
+    } finally {
+      setTranslatingVideoId(null);
+    }
+  };
+
   const filteredVideos = videos.filter(video =>
     video.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     video.original_filename.toLowerCase().includes(searchTerm.toLowerCase())
@@ -73,7 +128,7 @@ export default function History() {
     }
 
     const content = metadata.map(meta => 
-      `=== ${meta.platform.toUpperCase()} ===\n` +
+      `=== ${getPlatformLabel(meta.platform).toUpperCase()} ===\n` +
       `Title: ${meta.title || 'N/A'}\n` +
       `Description: ${meta.description || 'N/A'}\n` +
       `Hashtags: ${meta.hashtags ? meta.hashtags.map(tag => `#${tag}`).join(' ') : 'N/A'}\n\n`
@@ -206,71 +261,86 @@ export default function History() {
 
                         {/* Platform Metadata */}
                         {metadata.length > 0 ? (
-                          ['youtube', 'instagram', 'tiktok'].map(platform => {
-                            const meta = metadataByPlatform[platform];
-                            if (!meta) return null;
+                          <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                            {getPlatforms().map(({ key: platform, label }) => {
+                              const meta = metadataByPlatform[platform];
+                              if (!meta) return null;
+
+                              const violations = validatePlatformMetadata({
+                                platform,
+                                title: meta.title || '',
+                                description: meta.description || '',
+                                hashtags: meta.hashtags || []
+                              });
                             
-                            return (
-                              <div key={platform} className="space-y-3">
-                                <h4 className="font-medium capitalize text-sm text-primary">
-                                  {platform}
-                                </h4>
-                                <div className="space-y-2">
-                                  <div>
-                                    <div className="flex items-center justify-between mb-1">
-                                      <Label className="text-xs text-muted-foreground">Title</Label>
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => copyToClipboard(meta.title || '', `${platform} title`)}
-                                      >
-                                        <Copy className="w-3 h-3" />
-                                      </Button>
+                              return (
+                                <div key={platform} className="space-y-3">
+                                  <h4 className="font-medium text-sm text-primary flex items-center gap-2">
+                                    {label}
+                                    <span className="text-xs uppercase bg-muted text-muted-foreground px-1.5 py-0.5 rounded">
+                                      {meta.language}
+                                    </span>
+                                  </h4>
+                                  <div className="space-y-2">
+                                    <div>
+                                      <div className="flex items-center justify-between mb-1">
+                                        <Label className="text-xs text-muted-foreground">Title</Label>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => copyToClipboard(meta.title || '', `${platform} title`)}
+                                        >
+                                          <Copy className="w-3 h-3" />
+                                        </Button>
+                                      </div>
+                                      <p className="text-xs bg-muted p-2 rounded line-clamp-2">
+                                        {meta.title || 'No title generated'}
+                                      </p>
+                                      <ConstraintWarnings violations={violations} field="title" />
                                     </div>
-                                    <p className="text-xs bg-muted p-2 rounded line-clamp-2">
-                                      {meta.title || 'No title generated'}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <div className="flex items-center justify-between mb-1">
-                                      <Label className="text-xs text-muted-foreground">Description</Label>
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => copyToClipboard(meta.description || '', `${platform} description`)}
-                                      >
-                                        <Copy className="w-3 h-3" />
-                                      </Button>
+                                    <div>
+                                      <div className="flex items-center justify-between mb-1">
+                                        <Label className="text-xs text-muted-foreground">Description</Label>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => copyToClipboard(meta.description || '', `${platform} description`)}
+                                        >
+                                          <Copy className="w-3 h-3" />
+                                        </Button>
+                                      </div>
+                                      <p className="text-xs bg-muted p-2 rounded line-clamp-2">
+                                        {meta.description || 'No description generated'}
+                                      </p>
+                                      <ConstraintWarnings violations={violations} field="description" />
                                     </div>
-                                    <p className="text-xs bg-muted p-2 rounded line-clamp-2">
-                                      {meta.description || 'No description generated'}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <div className="flex items-center justify-between mb-1">
-                                      <Label className="text-xs text-muted-foreground">Hashtags</Label>
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => copyToClipboard(
-                                          meta.hashtags ? meta.hashtags.map(tag => `#${tag}`).join(' ') : '', 
-                                          `${platform} hashtags`
-                                        )}
-                                      >
-                                        <Copy className="w-3 h-3" />
-                                      </Button>
+                                    <div>
+                                      <div className="flex items-center justify-between mb-1">
+                                        <Label className="text-xs text-muted-foreground">Hashtags</Label>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => copyToClipboard(
+                                            meta.hashtags ? meta.hashtags.map(tag => `#${tag}`).join(' ') : '', 
+                                            `${platform} hashtags`
+                                          )}
+                                        >
+                                          <Copy className="w-3 h-3" />
+                                        </Button>
+                                      </div>
+                                      <p className="text-xs bg-muted p-2 rounded">
+                                        {meta.hashtags && meta.hashtags.length > 0 
+                                          ? `${meta.hashtags.map(tag => `#${tag}`).slice(0, 3).join(' ')}${meta.hashtags.length > 3 ? '...' : ''}`
+                                          : 'No hashtags generated'
+                                        }
+                                      </p>
+                                      <ConstraintWarnings violations={violations} field="hashtags" />
                                     </div>
-                                    <p className="text-xs bg-muted p-2 rounded">
-                                      {meta.hashtags && meta.hashtags.length > 0 
-                                        ? `${meta.hashtags.map(tag => `#${tag}`).slice(0, 3).join(' ')}${meta.hashtags.length > 3 ? '...' : ''}`
-                                        : 'No hashtags generated'
-                                      }
-                                    </p>
                                   </div>
                                 </div>
-                              </div>
-                            );
-                          })
+                              );
+                            })}
+                          </div>
                         ) : (
                           <div className="lg:col-span-3 text-center py-8">
                             <p className="text-muted-foreground">No metadata generated for this video yet.</p>
@@ -285,6 +355,96 @@ export default function History() {
                           </div>
                         )}
                       </div>
+
+                      {/* Subtitle Tracks */}
+                      {(subtitleTracks[video.id] || []).length > 0 && (
+                        <div className="mt-6 pt-4 border-t space-y-2">
+                          <h4 className="font-medium text-sm flex items-center gap-2">
+                            <Subtitles className="w-4 h-4" />
+                            Subtitles
+                          </h4>
+                          {subtitleTracks[video.id].map(track => (
+                            <div key={track.id} className="flex flex-wrap items-center justify-between gap-2">
+                              <span className="text-xs text-muted-foreground">
+                                <span className="uppercase font-medium text-foreground">{track.label || track.language}</span>
+                                {` • v${track.version} • ${track.segments.length} segments`}
+                              </span>
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => navigate(`/videos/${video.id}/subtitles?lang=${encodeURIComponent(track.language)}`)}
+                                >
+                                  <Pencil className="w-3 h-3 mr-1" />
+                                  Edit
+                                </Button>
+                                {SUBTITLE_FORMATS.map(format => (
+                                  <Button
+                                    key={format.value}
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => downloadSubtitles(
+                                      track.segments,
+                                      format.value,
+                                      `${video.name.replace(/\.[^/.]+$/, '')}.${track.language}`
+                                    )}
+                                  >
+                                    <Download className="w-3 h-3 mr-1" />
+                                    {format.value.toUpperCase()}
+                                  </Button>
+                                ))}
+                                <Select
+                                  value=""
+                                  onValueChange={(targetLanguage) => translateTrack(track, targetLanguage)}
+                                  disabled={isTranslating || !getTranslationLanguages().some(lang => canTranslate(track.language, lang.code))}
+                                >
+                                  <SelectTrigger className="h-9 w-36 text-xs">
+                                    <Languages className="w-3 h-3 mr-1" />
+                                    <SelectValue placeholder="Translate to…" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {getTranslationLanguages()
+                                      .filter(lang => canTranslate(track.language, lang.code))
+                                      .map(lang => (
+                                        <SelectItem key={lang.code} value={lang.code}>{lang.name}</SelectItem>
+                                      ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            </div>
+                          ))}
+                          {translatingVideoId === video.id && translationProgress && (
+                            <p className="text-xs text-muted-foreground flex items-center gap-2">
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                              {translationProgress.message} ({Math.round(translationProgress.progress)}%)
+                            </p>
+                          )}
+                          {subtitleTracks[video.id].length > 1 && (
+                            <div className="flex flex-wrap items-center justify-between gap-2 pt-2 border-t">
+                              <span className="text-xs text-muted-foreground">
+                                All {subtitleTracks[video.id].length} languages, one file each
+                              </span>
+                              <div className="flex gap-1">
+                                {SUBTITLE_FORMATS.filter(format => format.value !== 'ass').map(format => (
+                                  <Button
+                                    key={format.value}
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => downloadSubtitleTracks(
+                                      subtitleTracks[video.id],
+                                      format.value,
+                                      video.name.replace(/\.[^/.]+$/, '')
+                                    )}
+                                  >
+                                    <Download className="w-3 h-3 mr-1" />
+                                    All {format.value.toUpperCase()}
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 );
@@ -11,6 +11,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useToast } from '@/hooks/use-toast';
+import { TemplateManager } from '@/components/metadata/TemplateManager';
 
 export default function Settings() {
   const { user, signOut } = useAuth();
@@ -248,6 +249,9 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Metadata Templates */}
+          <TemplateManager />
+
           {/* Danger Zone */}
           <Card className="border-destructive/50">
             <CardHeader>
@@ -0,0 +1,620 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, Save, Scissors, Merge, Trash2, Undo2, Play, Pause, ZoomIn, ZoomOut, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { WaveformTimeline } from '@/components/subtitles/WaveformTimeline';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useVideos } from '@/hooks/useVideos';
+import { useTranscripts, latestTracksByLanguage } from '@/hooks/useTranscripts';
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { VideoToAudioProcessor } from '@/utils/videoToAudio';
+import { computeWaveformPeaks } from '@/utils/waveform';
+import {
+  sortCues,
+  retimeCue,
+  splitCue,
+  mergeWithNext,
+  deleteCue,
+  updateCueText,
+  shiftCues,
+  formatCueTime,
+  parseCueTime,
+  validateCues
+} from '@/utils/cueEditing';
+
+const PEAKS_PER_SECOND = 100;
+const UNDO_LIMIT = 50;
+const ZOOM_LEVELS = [5, 10, 20, 30, 60, 120];
+
+export default function SubtitleEditor() {
+  const { id: videoId } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { getVideoSource } = useVideos();
+  const { getSubtitleTracks, getLatestTranscript, saveSubtitleTrack } = useTranscripts();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragSnapshotRef = useRef<TranscriptionSegment[] | null>(null);
+
+  const [videoName, setVideoName] = useState('');
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [language, setLanguage] = useState('und');
+  const [transcriptId, setTranscriptId] = useState<string | undefined>();
+  const [label, setLabel] = useState<string | undefined>();
+  const [version, setVersion] = useState<number | null>(null);
+  const [cues, setCues] = useState<TranscriptionSegment[]>([]);
+  const [undoStack, setUndoStack] = useState<TranscriptionSegment[][]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [waveformStatus, setWaveformStatus] = useState<'idle' | 'loading' | 'ready' | 'failed'>('idle');
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [zoomLevel, setZoomLevel] = useState(2);
+  const [viewStart, setViewStart] = useState(0);
+  const [shiftAmount, setShiftAmount] = useState('0');
+
+  const viewDuration = Math.min(ZOOM_LEVELS[zoomLevel], duration || ZOOM_LEVELS[zoomLevel]);
+
+  // Load the video and the latest subtitle track (falling back to the latest transcript)
+  useEffect(() => {
+    if (!user || !videoId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const source = await getVideoSource(videoId);
+        if (cancelled) return;
+        setVideoName(source.name);
+        setVideoUrl(source.url);
+        if (source.duration) setDuration(source.duration);
+
+        const tracks = latestTracksByLanguage(await getSubtitleTracks([videoId]));
+        const requested = searchParams.get('lang');
+        const track = tracks.find(t => t.language === requested) || tracks[0];
+
+        if (track) {
+          setLanguage(track.language);
+          setTranscriptId(track.transcript_id || undefined);
+          setLabel(track.label || undefined);
+          setVersion(track.version);
+          setCues(sortCues(track.segments));
+        } else {
+          const transcript = await getLatestTranscript(videoId);
+          if (transcript) {
+            setLanguage(transcript.language || 'und');
+            setTranscriptId(transcript.id);
+            setCues(sortCues(transcript.segments));
+          }
+        }
+      } catch (error) {
+        console.error('Error loading subtitle editor:', error);
+        toast({
+          title: "Error loading subtitles",
+          description: "Failed to load this video's subtitles.",
+          variant: "destructive"
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, videoId, searchParams, getVideoSource, getSubtitleTracks, getLatestTranscript, toast]);
+
+  // Decode the audio track for the waveform once the video URL is known
+  useEffect(() => {
+    if (!videoUrl) return;
+
+    let cancelled = false;
+    const buildWaveform = async () => {
+      setWaveformStatus('loading');
+      try {
+        const response = await fetch(videoUrl);
+        const blob = await response.blob();
+        const file = new File([blob], videoName || 'video', { type: blob.type });
+
+        // A low sample rate is plenty for drawing and keeps memory down on long videos
+        const processor = new VideoToAudioProcessor();
+        const { audioData, sampleRate, duration: audioDuration } = await processor.extractAudioOffline(file, {
+          sampleRate: 8000
+        });
+
+        if (cancelled) return;
+        setPeaks(computeWaveformPeaks(audioData, sampleRate, PEAKS_PER_SECOND));
+        setDuration(current => current || audioDuration);
+        setWaveformStatus('ready');
+      } catch (error) {
+        console.error('Error building waveform:', error);
+        if (!cancelled) setWaveformStatus('failed');
+      }
+    };
+
+    buildWaveform();
+    return () => {
+      cancelled = true;
+    };
+  }, [videoUrl, videoName]);
+
+  const validationErrors = useMemo(() => validateCues(cues), [cues]);
+
+  const activeCue = cues.find(cue => currentTime >= cue.start && currentTime < cue.end);
+
+  // Record an edit so it can be undone
+  const applyEdit = useCallback((update: (current: TranscriptionSegment[]) => TranscriptionSegment[]) => {
+    const next = update(cues);
+    if (next === cues) return;
+
+    setUndoStack(stack => [...stack.slice(-(UNDO_LIMIT - 1)), cues]);
+    setCues(next);
+    setIsDirty(true);
+  }, [cues]);
+
+  const undo = useCallback(() => {
+    if (undoStack.length === 0) return;
+
+    setCues(undoStack[undoStack.length - 1]);
+    setUndoStack(undoStack.slice(0, -1));
+    setIsDirty(true);
+  }, [undoStack]);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.max(0, duration ? Math.min(time, duration) : time);
+    if (videoRef.current) videoRef.current.currentTime = clamped;
+    setCurrentTime(clamped);
+  }, [duration]);
+
+  const togglePlayback = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play();
+    } else {
+      video.pause();
+    }
+  }, []);
+
+  // Select a cue and scroll the timeline to it, unless playback is moving the view
+  const selectCue = useCallback((index: number | null) => {
+    setSelectedIndex(index);
+
+    const cue = index === null ? undefined : cues[index];
+    if (cue && !isPlaying && (cue.start < viewStart || cue.end > viewStart + viewDuration)) {
+      setViewStart(Math.max(0, cue.start - viewDuration * 0.1));
+    }
+  }, [cues, isPlaying, viewStart, viewDuration]);
+
+  // Dragging produces many retimes; snapshot once so the whole drag undoes in one step
+  const handleDragRetime = useCallback((index: number, start: number, end: number) => {
+    setCues(current => {
+      if (!dragSnapshotRef.current) dragSnapshotRef.current = current;
+      return retimeCue(current, index, start, end);
+    });
+  }, []);
+
+  const handleDragEnd = useCallback(() => {
+    const snapshot = dragSnapshotRef.current;
+    dragSnapshotRef.current = null;
+    if (!snapshot) return;
+
+    setUndoStack(stack => [...stack.slice(-(UNDO_LIMIT - 1)), snapshot]);
+    setIsDirty(true);
+    setCues(current => sortCues(current));
+  }, []);
+
+  const handleSplit = useCallback(() => {
+    if (selectedIndex === null) return;
+    applyEdit(current => splitCue(current, selectedIndex, currentTime));
+  }, [selectedIndex, currentTime, applyEdit]);
+
+  const handleMerge = useCallback(() => {
+    if (selectedIndex === null) return;
+    applyEdit(current => mergeWithNext(current, selectedIndex));
+  }, [selectedIndex, applyEdit]);
+
+  const handleDelete = useCallback((index: number) => {
+    applyEdit(current => deleteCue(current, index));
+    selectCue(index > 0 ? index - 1 : null);
+  }, [applyEdit, selectCue]);
+
+  const setSelectedBoundary = useCallback((boundary: 'start' | 'end') => {
+    if (selectedIndex === null) return;
+    applyEdit(current => {
+      const cue = current[selectedIndex];
+      if (!cue) return current;
+      return boundary === 'start'
+        ? retimeCue(current, selectedIndex, currentTime, cue.end)
+        : retimeCue(current, selectedIndex, cue.start, currentTime);
+    });
+  }, [selectedIndex, currentTime, applyEdit]);
+
+  const commitTime = (index: number, boundary: 'start' | 'end', value: string) => {
+    const seconds = parseCueTime(value);
+    if (seconds === null) {
+      toast({
+        title: "Invalid time",
+        description: "Use MM:SS.mmm, H:MM:SS.mmm or seconds.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    applyEdit(current => {
+      const cue = current[index];
+      if (!cue || cue[boundary] === seconds) return current;
+      return sortCues(boundary === 'start'
+        ? retimeCue(current, index, seconds, cue.end)
+        : retimeCue(current, index, cue.start, seconds));
+    });
+  };
+
+  const handleShift = () => {
+    const offset = Number(shiftAmount);
+    if (!Number.isFinite(offset) || offset === 0) return;
+    applyEdit(current => shiftCues(current, offset));
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!videoId || saving) return;
+
+    setSaving(true);
+    try {
+      const track = await saveSubtitleTrack(videoId, sortCues(cues), { language, label, transcriptId });
+      setVersion(track.version);
+      setIsDirty(false);
+      toast({
+        title: "Subtitles saved",
+        description: `Saved as version ${track.version}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: "Failed to save your subtitle changes.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  }, [videoId, saving, cues, language, label, transcriptId, saveSubtitleTrack, toast]);
+
+  // Keep the timeline window following the playhead during playback
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (currentTime < viewStart || currentTime > viewStart + viewDuration) {
+      setViewStart(Math.max(0, currentTime - viewDuration * 0.1));
+    }
+  }, [currentTime, isPlaying, viewStart, viewDuration]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const modifier = event.ctrlKey || event.metaKey;
+
+      if (modifier && event.key.toLowerCase() === 's') {
+        event.preventDefault();
+        handleSave();
+        return;
+      }
+
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      if (modifier && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        undo();
+        return;
+      }
+      if (modifier) return;
+
+      switch (event.key) {
+        case ' ':
+          event.preventDefault();
+          togglePlayback();
+          break;
+        case 's':
+          handleSplit();
+          break;
+        case 'm':
+          handleMerge();
+          break;
+        case '[':
+          setSelectedBoundary('start');
+          break;
+        case ']':
+          setSelectedBoundary('end');
+          break;
+        case 'Delete':
+          if (selectedIndex !== null) handleDelete(selectedIndex);
+          break;
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          event.preventDefault();
+          const step = event.key === 'ArrowUp' ? -1 : 1;
+          const next = Math.min(cues.length - 1, Math.max(0, (selectedIndex ?? -step) + step));
+          if (cues[next]) {
+            selectCue(next);
+            seek(cues[next].start);
+          }
+          break;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSave, undo, togglePlayback, handleSplit, handleMerge, setSelectedBoundary, handleDelete, seek, selectCue, cues, selectedIndex]);
+
+  if (!user) {
+    navigate('/auth');
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen bg-background pt-24 pb-12">
+      <div className="container mx-auto px-4">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/history')}>
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back to history
+              </Button>
+              <h1 className="text-3xl font-bold mb-2">Edit Subtitles</h1>
+              <p className="text-muted-foreground">
+                {videoName || 'Loading video...'}
+                {` • ${language.toUpperCase()}`}
+                {version !== null && ` • v${version}`}
+                {isDirty && ' • unsaved changes'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={undo} disabled={undoStack.length === 0}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo
+              </Button>
+              <Button onClick={handleSave} disabled={saving || loading || !isDirty}>
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save new version
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <Card>
+              <CardContent className="pt-6 text-center py-12">
+                <Loader2 className="w-12 h-12 mx-auto mb-4 animate-spin text-muted-foreground" />
+                <h3 className="text-lg font-medium mb-2">Loading subtitles...</h3>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="relative bg-black rounded-md overflow-hidden">
+                    {videoUrl && (
+                      <video
+                        ref={videoRef}
+                        src={videoUrl}
+                        className="w-full max-h-[420px]"
+                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+                        onPlay={() => setIsPlaying(true)}
+                        onPause={() => setIsPlaying(false)}
+                      />
+                    )}
+                    {activeCue && (
+                      <div className="absolute bottom-6 inset-x-0 flex justify-center px-4 pointer-events-none">
+                        <span className="bg-black/75 text-white text-lg px-3 py-1 rounded whitespace-pre-line text-center">
+                          {activeCue.text}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={togglePlayback}>
+                      {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                    <span className="text-sm font-mono text-muted-foreground">
+                      {formatCueTime(currentTime)} / {formatCueTime(duration)}
+                    </span>
+                    <div className="flex-1" />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setZoomLevel(level => Math.max(0, level - 1))}
+                      disabled={zoomLevel === 0}
+                    >
+                      <ZoomIn className="w-4 h-4" />
+                    </Button>
+                    <span className="text-xs text-muted-foreground w-12 text-center">{ZOOM_LEVELS[zoomLevel]}s</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setZoomLevel(level => Math.min(ZOOM_LEVELS.length - 1, level + 1))}
+                      disabled={zoomLevel === ZOOM_LEVELS.length - 1}
+                    >
+                      <ZoomOut className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  <WaveformTimeline
+                    peaks={peaks}
+                    peaksPerSecond={PEAKS_PER_SECOND}
+                    cues={cues}
+                    currentTime={currentTime}
+                    selectedIndex={selectedIndex}
+                    viewStart={viewStart}
+                    viewDuration={viewDuration}
+                    onSeek={seek}
+                    onSelectCue={selectCue}
+                    onRetimeCue={handleDragRetime}
+                    onRetimeEnd={handleDragEnd}
+                  />
+
+                  {duration > viewDuration && (
+                    <Slider
+                      value={[viewStart]}
+                      min={0}
+                      max={Math.max(0, duration - viewDuration)}
+                      step={0.1}
+                      onValueChange={([value]) => setViewStart(value)}
+                    />
+                  )}
+
+                  {waveformStatus === 'loading' && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-2">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Building waveform...
+                    </p>
+                  )}
+                  {waveformStatus === 'failed' && (
+                    <p className="text-xs text-muted-foreground">
+                      Waveform unavailable for this video. Cues can still be edited.
+                    </p>
+                  )}
+
+                  <p className="text-xs text-muted-foreground">
+                    Space play/pause • S split at playhead • M merge with next • [ / ] set start/end to playhead •
+                    ↑/↓ select cue • Delete remove cue • Ctrl+Z undo • Ctrl+S save
+                  </p>
+                </CardContent>
+              </Card>
+
+              {validationErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 space-y-1">
+                      {validationErrors.slice(0, 5).map((error, index) => (
+                        <li key={index}>{error}</li>
+                      ))}
+                      {validationErrors.length > 5 && <li>...and {validationErrors.length - 5} more</li>}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-wrap items-end justify-between gap-4">
+                    <CardTitle>Cues ({cues.length})</CardTitle>
+                    <div className="flex items-end gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="shift-amount" className="text-xs">Shift all (seconds)</Label>
+                        <Input
+                          id="shift-amount"
+                          type="number"
+                          step="0.1"
+                          value={shiftAmount}
+                          onChange={(e) => setShiftAmount(e.target.value)}
+                          className="w-28"
+                        />
+                      </div>
+                      <Button variant="outline" onClick={handleShift} disabled={cues.length === 0}>
+                        Shift
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {cues.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No subtitles for this video yet. Transcribe it from the upload page first.
+                    </p>
+                  ) : (
+                    cues.map((cue, index) => (
+                      <div
+                        key={`${index}-${cue.start}-${cue.end}`}
+                        className={`flex flex-col md:flex-row gap-3 p-3 rounded-md border ${
+                          index === selectedIndex ? 'border-primary bg-primary/5' : ''
+                        }`}
+                        onClick={() => selectCue(index)}
+                      >
+                        <div className="flex md:flex-col gap-2 md:w-36 shrink-0">
+                          <span className="text-xs text-muted-foreground">#{index + 1}</span>
+                          <Input
+                            defaultValue={formatCueTime(cue.start)}
+                            onBlur={(e) => commitTime(index, 'start', e.target.value)}
+                            onFocus={() => seek(cue.start)}
+                            className="h-8 font-mono text-xs"
+                            aria-label="Start time"
+                          />
+                          <Input
+                            defaultValue={formatCueTime(cue.end)}
+                            onBlur={(e) => commitTime(index, 'end', e.target.value)}
+                            className="h-8 font-mono text-xs"
+                            aria-label="End time"
+                          />
+                        </div>
+                        <Textarea
+                          value={cue.text}
+                          onChange={(e) => {
+                            const text = e.target.value;
+                            // Typing is applied directly so every keystroke isn't its own undo step
+                            setCues(current => updateCueText(current, index, text));
+                            setIsDirty(true);
+                          }}
+                          onFocus={() => {
+                            setUndoStack(stack => [...stack.slice(-(UNDO_LIMIT - 1)), cues]);
+                            seek(cue.start);
+                          }}
+                          rows={2}
+                          className="flex-1 min-h-[64px]"
+                        />
+                        <div className="flex md:flex-col gap-1 shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Split at playhead"
+                            onClick={() => applyEdit(current => splitCue(current, index, currentTime))}
+                          >
+                            <Scissors className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Merge with next"
+                            disabled={index === cues.length - 1}
+                            onClick={() => applyEdit(current => mergeWithNext(current, index))}
+                          >
+                            <Merge className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete"
+                            onClick={() => handleDelete(index)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
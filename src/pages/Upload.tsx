@@ -1,6 +1,6 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Upload as UploadIcon, Play, Copy, Download, CheckCircle, AlertTriangle, FileAudio, Subtitles, Languages } from 'lucide-react';
+import { Upload as UploadIcon, Play, Copy, Download, CheckCircle, AlertTriangle, FileAudio, Subtitles, Languages, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -18,26 +18,66 @@ import { useUserRole } from '@/hooks/useUserRole';
 import { useVideos } from '@/hooks/useVideos';
 import { useToast } from '@/hooks/use-toast';
 import { useTranscription } from '@/hooks/useTranscription';
+import { useTranscripts } from '@/hooks/useTranscripts';
+import { useSubtitleTranslation } from '@/hooks/useSubtitleTranslation';
+import { useMetadataTemplates } from '@/hooks/useMetadataTemplates';
+import { useTranscriptionPreferences } from '@/hooks/useTranscriptionPreferences';
 import { validateFiles, formatFileSize, getFileSizeLimitsForRole } from '@/utils/fileSizeValidation';
 import { VideoToAudioProcessor, ProcessingProgress } from '@/utils/videoToAudio';
+import { SubtitleFormat } from '@/utils/srtGenerator';
+import { downloadSubtitleTracks } from '@/utils/subtitleExport';
+import { ASSStyle, DEFAULT_ASS_STYLE } from '@/utils/assGenerator';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+import { getLanguageName } from '@/utils/languageNames';
+import { metadataGenerator } from '@/services/metadataGenerator';
+import { getPlatformLabel } from '@/services/platformRegistry';
+import { TEMPLATE_PACKS } from '@/services/metadataTemplates';
+import {
+  LanguageDetection,
+  MIN_LANGUAGE_CONFIDENCE,
+  TranscriptionResult,
+  WhisperModelSize,
+  WhisperQuantization,
+  WHISPER_MODEL_SIZES,
+  WHISPER_QUANTIZATIONS,
+  WHISPER_SAMPLE_RATE,
+  estimateWhisperDownloadSize
+} from '@/services/transcriptionService';
+import { TranscriptChapter } from '@/services/transcriptAnalyzer';
+import { proposeYouTubeChapters, validateYouTubeChapters, formatChapterTime } from '@/utils/youtubeChapters';
+import { ChapterEditor } from '@/components/metadata/ChapterEditor';
+import { ConstraintWarnings } from '@/components/metadata/ConstraintWarnings';
+import { ASSStyleControls } from '@/components/subtitles/ASSStyleControls';
+import { ConstraintViolation } from '@/utils/metadataConstraints';
 
 interface VideoFile {
   id: string;
   name: string;
   size: number;
   file: File;
-  audioBlob?: Blob;
   duration?: number;
   processingStatus: 'pending' | 'uploading' | 'extracting' | 'complete' | 'error';
   uploadedVideoId?: string; // Store the Supabase video ID after upload
+  detectedLanguage?: LanguageDetection; // spoken language found during transcription
 }
 
 interface GeneratedMetadata {
-  platform: 'youtube' | 'instagram' | 'tiktok';
+  platform: string; // key of a registered platform
   title: string;
   description: string;
   hashtags: string[];
   transcription?: string;
+  violations: ConstraintViolation[];
+}
+
+// Metadata generated from a transcript whose YouTube chapters still need the user's review
+interface ChapterReview {
+  videoId: string;
+  transcript: TranscriptionResult;
+  transcription: string;
+  chapters: TranscriptChapter[];
+  duration: number;
+  language: string; // metadata language, which may come from the detected spoken language
 }
 
 export default function Upload() {
@@ -51,11 +91,16 @@ export default function Upload() {
     isTranscribing,
     transcriptionProgress,
     transcriptionResult,
-    transcribeVideo,
+    partialSegments,
+    transcribeAudio,
     generateSRT,
     getSupportedLanguages,
     clearTranscription
   } = useTranscription();
+  const { saveTranscript } = useTranscripts();
+  const { isTranslating, translationProgress, translateSubtitles, getTranslationLanguages, canTranslate } = useSubtitleTranslation();
+  const { defaultTemplates } = useMetadataTemplates();
+  const { modelOptions, updateModelOptions } = useTranscriptionPreferences();
 
   const [uploadedVideos, setUploadedVideos] = useState<VideoFile[]>([]);
   const [dragActive, setDragActive] = useState(false);
@@ -64,6 +109,16 @@ export default function Upload() {
   const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
   const [generatedMetadata, setGeneratedMetadata] = useState<GeneratedMetadata[]>([]);
   const [copySuccess, setCopySuccess] = useState<string | null>(null);
+  const [chapterReview, setChapterReview] = useState<ChapterReview | null>(null);
+  const [savingReview, setSavingReview] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const liveTranscriptRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest lines of the live transcript in view
+  useEffect(() => {
+    const container = liveTranscriptRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [partialSegments]);
 
   // Form state
   const [creatorName, setCreatorName] = useState('');
@@ -74,6 +129,9 @@ export default function Upload() {
   // Transcription settings
   const [enableTranscription, setEnableTranscription] = useState(false);
   const [transcriptionLanguage, setTranscriptionLanguage] = useState('en');
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>('srt');
+  const [assStyle, setAssStyle] = useState<ASSStyle>(DEFAULT_ASS_STYLE);
+  const [translationLanguages, setTranslationLanguages] = useState<string[]>([]);
 
   if (!user) {
     navigate('/auth');
@@ -175,45 +233,111 @@ export default function Upload() {
     }
   }, []);
 
-  // Extract audio from uploaded videos
-  const extractAudioFromVideos = async (videos: VideoFile[]) => {
+  // Decode a video's audio once, recording its duration. The samples are what transcription
+  // needs, so they are returned rather than kept in state; null when extraction failed.
+  const extractVideoAudio = async (video: VideoFile, signal?: AbortSignal) => {
     const processor = new VideoToAudioProcessor((progress) => {
       setProcessingProgress(progress);
     });
 
-    const audioResults = [];
-    for (let i = 0; i < videos.length; i++) {
-      const video = videos[i];
-      
-      // Update processing status
-      setUploadedVideos(prev => 
-        prev.map(v => v.id === video.id ? { ...v, processingStatus: 'extracting' } : v)
-      );
+    setUploadedVideos(prev =>
+      prev.map(v => v.id === video.id ? { ...v, processingStatus: 'extracting' } : v)
+    );
 
-      try {
-        const { audioBlob, duration } = await processor.extractAudioFromVideo(video.file);
-        
-        // Update video with audio data
-        setUploadedVideos(prev => 
-          prev.map(v => v.id === video.id ? { 
-            ...v, 
-            audioBlob, 
-            duration,
-            processingStatus: 'complete'
-          } : v)
-        );
+    try {
+      const { audioData, duration } = await processor.extractSamples(video.file, {
+        sampleRate: WHISPER_SAMPLE_RATE,
+        signal
+      });
 
-        audioResults.push({ videoId: video.id, audioBlob, duration });
-      } catch (error) {
-        console.error('Audio extraction failed for', video.name, error);
-        setUploadedVideos(prev => 
-          prev.map(v => v.id === video.id ? { ...v, processingStatus: 'error' } : v)
+      setUploadedVideos(prev =>
+        prev.map(v => v.id === video.id ? { ...v, duration, processingStatus: 'complete' } : v)
+      );
+      return { audioData, duration };
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Cancelled, not broken: leave the video ready to process again
+        setUploadedVideos(prev =>
+          prev.map(v => v.id === video.id ? { ...v, processingStatus: 'complete' } : v)
         );
+        throw error;
       }
+      console.error('Audio extraction failed for', video.name, error);
+      setUploadedVideos(prev =>
+        prev.map(v => v.id === video.id ? { ...v, processingStatus: 'error' } : v)
+      );
+      return null;
+    } finally {
+      setProcessingProgress(null);
     }
+  };
+
+  // A confident detection that disagrees with the chosen transcription language
+  const isLanguageMismatch = (video: VideoFile) =>
+    !!video.detectedLanguage &&
+    transcriptionLanguage !== 'multilingual' &&
+    video.detectedLanguage.language !== transcriptionLanguage &&
+    video.detectedLanguage.confidence >= MIN_LANGUAGE_CONFIDENCE;
 
-    setProcessingProgress(null);
-    return audioResults;
+  // Generation is deterministic, so this shows exactly what gets saved
+  const buildDisplayMetadata = (
+    transcription: string,
+    transcript?: TranscriptionResult,
+    chapters?: TranscriptChapter[],
+    metadataLanguage: string = language
+  ): GeneratedMetadata[] => {
+    const input = { creatorName, videoTopic, language: metadataLanguage, keywords };
+    const metadata = transcript
+      ? metadataGenerator.generateFromTranscript({ ...input, transcript, chapters }, defaultTemplates)
+      : metadataGenerator.generatePlatformMetadata(input, defaultTemplates);
+
+    return metadata.map(meta => ({
+      platform: meta.platform,
+      title: meta.title,
+      description: meta.description,
+      hashtags: meta.hashtags.map(tag => tag.replace(/^#/, '')),
+      transcription,
+      violations: meta.violations
+    }));
+  };
+
+  const updateChapters = (chapters: TranscriptChapter[]) => {
+    if (!chapterReview) return;
+
+    setChapterReview({ ...chapterReview, chapters });
+    setGeneratedMetadata(buildDisplayMetadata(chapterReview.transcription, chapterReview.transcript, chapters, chapterReview.language));
+  };
+
+  // Save metadata once the user has accepted the YouTube chapters
+  const saveReviewedMetadata = async () => {
+    if (!chapterReview) return;
+
+    setSavingReview(true);
+    try {
+      await saveMetadata(
+        chapterReview.videoId,
+        creatorName,
+        videoTopic,
+        chapterReview.language,
+        keywords,
+        { transcript: chapterReview.transcript, chapters: chapterReview.chapters, templates: defaultTemplates }
+      );
+      setChapterReview(null);
+
+      toast({
+        title: "Processing Complete!",
+        description: "Metadata and chapters saved successfully!",
+      });
+    } catch (error) {
+      console.error('Error saving reviewed metadata:', error);
+      toast({
+        title: "Save failed",
+        description: "There was an error saving your metadata.",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingReview(false);
+    }
   };
 
   const generateMetadata = async () => {
@@ -237,35 +361,79 @@ export default function Upload() {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setProcessing(true);
     setProgress(0);
+    setChapterReview(null);
     clearTranscription(); // Clear any previous transcription results
 
     try {
       let transcriptionText = '';
       let currentVideoName = '';
+      let firstTranscript: TranscriptionResult | null = null;
 
-      // Step 1: Transcribe videos if enabled
-      if (enableTranscription && completedVideos.length > 0) {
-        setProgress(10);
-        
-        for (let i = 0; i < completedVideos.length; i++) {
-          const video = completedVideos[i];
-          currentVideoName = video.name;
-          
+      // Step 1: Extract each video's audio once, transcribing it if enabled
+      const durations = new Map<string, number>();
+      setProgress(10);
+
+      for (let i = 0; i < completedVideos.length; i++) {
+        const video = completedVideos[i];
+        currentVideoName = video.name;
+
+        const audio = await extractVideoAudio(video, controller.signal);
+        if (audio) durations.set(video.id, audio.duration);
+
+        if (enableTranscription) {
           try {
-            const result = await transcribeVideo(video.file, {
+            if (!audio) throw new Error('Audio extraction failed');
+
+            // The samples are handed over to the transcription worker, not copied
+            const result = await transcribeAudio(audio.audioData, {
               language: transcriptionLanguage,
-              returnSegments: true
+              returnSegments: true,
+              model: modelOptions,
+              signal: controller.signal
             });
+            throwIfAborted(controller.signal);
             
             if (result) {
+              if (result.detectedLanguage) {
+                const detectedLanguage = { language: result.detectedLanguage, confidence: result.languageConfidence || 0 };
+                setUploadedVideos(prev =>
+                  prev.map(v => v.id === video.id ? { ...v, detectedLanguage } : v)
+                );
+              }
+
               transcriptionText += `${completedVideos.length > 1 ? `[${video.name}]\n` : ''}${result.text}\n`;
+              if (i === 0) firstTranscript = result;
               
-              // Generate and download SRT for each video
-              generateSRT(result, video.name.replace(/\.[^/.]+$/, ''));
+              // Generate and download subtitles for each video
+              generateSRT(result, video.name.replace(/\.[^/.]+$/, ''), subtitleFormat, {}, assStyle);
+
+              // Persist the transcript so it is available from History later
+              if (video.uploadedVideoId) {
+                try {
+                  const transcript = await saveTranscript(video.uploadedVideoId, result);
+
+                  // Translate into the extra languages, saving and downloading a track for each
+                  const targetLanguages = translationLanguages.filter(lang => canTranslate(result.language || '', lang));
+                  if (targetLanguages.length > 0) {
+                    const tracks = await translateSubtitles(video.uploadedVideoId, result.segments, {
+                      sourceLanguage: result.language || '',
+                      targetLanguages,
+                      transcriptId: transcript.id
+                    });
+                    downloadSubtitleTracks(tracks, subtitleFormat, video.name.replace(/\.[^/.]+$/, ''), assStyle);
+                  }
+                } catch (saveError) {
+                  console.error(`Failed to save transcript for ${video.name}:`, saveError);
+                }
+              }
             }
           } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error(`Transcription failed for ${video.name}:`, error);
             toast({
               title: "Transcription Warning",
@@ -273,72 +441,82 @@ export default function Upload() {
               variant: "default"
             });
           }
-          
-          setProgress(10 + (i + 1) / completedVideos.length * 30);
         }
-      }
 
-      // Step 2: Extract audio (if not already done for transcription)
-      setProgress(40);
-      await extractAudioFromVideos(completedVideos);
-      setProgress(60);
+        setProgress(10 + (i + 1) / completedVideos.length * 50);
+      }
 
-      // Step 3: Generate and save metadata to database
+      // Step 2: Generate and save metadata to database. When YouTube chapters can be proposed
+      // from the transcript, saving waits until the user has reviewed them.
       const firstVideo = completedVideos[0];
-      if (firstVideo.uploadedVideoId) {
+      const proposedChapters = firstTranscript ? proposeYouTubeChapters(firstTranscript.segments) : [];
+      const awaitingReview = proposedChapters.length > 0 && !!firstVideo.uploadedVideoId;
+
+      // With auto-detect, write the metadata in the language that was actually spoken when a
+      // template pack exists for it
+      let metadataLanguage = language;
+      if (
+        transcriptionLanguage === 'multilingual' &&
+        firstTranscript?.detectedLanguage &&
+        TEMPLATE_PACKS[firstTranscript.detectedLanguage] &&
+        (firstTranscript.languageConfidence || 0) >= MIN_LANGUAGE_CONFIDENCE
+      ) {
+        metadataLanguage = firstTranscript.detectedLanguage;
+        setLanguage(metadataLanguage);
+      }
+
+      if (firstVideo.uploadedVideoId && !awaitingReview) {
         await saveMetadata(
           firstVideo.uploadedVideoId,
           creatorName,
           videoTopic,
-          language,
-          keywords
+          metadataLanguage,
+          keywords,
+          { transcript: firstTranscript || undefined, templates: defaultTemplates }
         );
       }
       
       setProgress(80);
 
-      // Step 4: Create display metadata for UI
-      const platforms = ['youtube', 'instagram', 'tiktok'] as const;
+      // Step 3: Create display metadata for UI
       const displayTranscription = transcriptionText.trim() || 
         `This video covers ${videoTopic} with expert guidance from ${creatorName}. Key topics include practical tips and techniques that viewers can apply immediately.`;
       
-      const formattedMetadata: GeneratedMetadata[] = platforms.map(platform => {
-        const platformSpecific = {
-          youtube: {
-            title: `${videoTopic} - Complete Guide | ${creatorName}`,
-            description: `In this video, I'll show you everything about ${videoTopic}. Perfect for anyone interested in ${keywords.split(',').map(k => k.trim()).join(', ')}.\n\n${displayTranscription}\n\nDon't forget to like and subscribe!`,
-            hashtags: ['tutorial', 'guide', ...keywords.split(',').map(k => k.trim()).filter(k => k)]
-          },
-          instagram: {
-            title: `${videoTopic} tips! 🔥`,
-            description: `Quick ${videoTopic} guide! ${displayTranscription.substring(0, 100)}...`,
-            hashtags: ['reels', videoTopic.toLowerCase().replace(/\s+/g, ''), ...keywords.split(',').map(k => k.trim()).filter(k => k)]
-          },
-          tiktok: {
-            title: `${videoTopic} hack everyone needs! ✨`,
-            description: `${displayTranscription.substring(0, 80)}... #${videoTopic.toLowerCase().replace(/\s+/g, '')}`,
-            hashtags: ['fyp', 'viral', videoTopic.toLowerCase().replace(/\s+/g, ''), ...keywords.split(',').map(k => k.trim()).filter(k => k)]
-          }
-        };
-
-        return {
-          platform,
-          title: platformSpecific[platform].title,
-          description: platformSpecific[platform].description,
-          hashtags: platformSpecific[platform].hashtags,
-          transcription: displayTranscription
-        };
-      });
+      const formattedMetadata = buildDisplayMetadata(displayTranscription, firstTranscript || undefined, proposedChapters, metadataLanguage);
 
       setGeneratedMetadata(formattedMetadata);
       setProgress(100);
-      
-      toast({
-        title: "Processing Complete!",
-        description: `Metadata ${enableTranscription ? 'and transcription' : ''} generated successfully!`,
-      });
+
+      if (awaitingReview) {
+        const transcriptEnd = firstTranscript.segments.reduce((max, segment) => Math.max(max, segment.end), 0);
+        setChapterReview({
+          videoId: firstVideo.uploadedVideoId,
+          transcript: firstTranscript,
+          transcription: displayTranscription,
+          chapters: proposedChapters,
+          duration: Math.max(durations.get(firstVideo.id) || 0, transcriptEnd),
+          language: metadataLanguage
+        });
+
+        toast({
+          title: "Review your chapters",
+          description: "Check the proposed YouTube chapters, then save the metadata.",
+        });
+      } else {
+        toast({
+          title: "Processing Complete!",
+          description: `Metadata ${enableTranscription ? 'and transcription' : ''} generated successfully!`,
+        });
+      }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Processing cancelled",
+          description: "Your videos are still here and ready to process again.",
+        });
+        return;
+      }
       console.error('Error in metadata generation:', error);
       toast({
         title: "Processing failed",
@@ -346,11 +524,17 @@ export default function Upload() {
         variant: "destructive"
       });
     } finally {
+      abortControllerRef.current = null;
       setProcessing(false);
       setProgress(0);
     }
   };
 
+  // Stop audio extraction and transcription for the current run
+  const cancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const copyToClipboard = async (text: string, label: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -371,7 +555,7 @@ export default function Upload() {
 
   const downloadAllMetadata = () => {
     const content = generatedMetadata.map(meta => 
-      `=== ${meta.platform.toUpperCase()} ===\n` +
+      `=== ${getPlatformLabel(meta.platform).toUpperCase()} ===\n` +
       `Title: ${meta.title}\n` +
       `Description: ${meta.description}\n` +
       `Hashtags: ${meta.hashtags.map(tag => `#${tag}`).join(' ')}\n\n`
@@ -390,7 +574,7 @@ export default function Upload() {
 
   const copyAllMetadata = async () => {
     const content = generatedMetadata.map(meta => 
-      `${meta.platform.toUpperCase()}:\n` +
+      `${getPlatformLabel(meta.platform).toUpperCase()}:\n` +
       `${meta.title}\n${meta.description}\n${meta.hashtags.map(tag => `#${tag}`).join(' ')}`
     ).join('\n\n');
     
@@ -475,7 +659,14 @@ export default function Upload() {
                         <p className="text-sm text-muted-foreground">
                           {formatFileSize(video.size)}
                           {video.duration && ` • ${Math.round(video.duration)}s`}
+                          {video.detectedLanguage && ` • ${getLanguageName(video.detectedLanguage.language)} (${Math.round(video.detectedLanguage.confidence * 100)}%)`}
                         </p>
+                        {isLanguageMismatch(video) && (
+                          <p className="text-sm text-yellow-700 flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Sounds like {getLanguageName(video.detectedLanguage.language)}, but {getLanguageName(transcriptionLanguage)} was selected
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -587,23 +778,124 @@ export default function Upload() {
               </div>
 
               {enableTranscription && (
-                <div>
-                  <Label htmlFor="transcription-language">Transcription Language</Label>
-                  <Select value={transcriptionLanguage} onValueChange={setTranscriptionLanguage}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getSupportedLanguages().map((lang) => (
-                        <SelectItem key={lang.code} value={lang.code}>
-                          <div className="flex items-center gap-2">
-                            <Languages className="h-4 w-4" />
-                            {lang.name}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="transcription-language">Transcription Language</Label>
+                    <Select value={transcriptionLanguage} onValueChange={setTranscriptionLanguage}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getSupportedLanguages().map((lang) => (
+                          <SelectItem key={lang.code} value={lang.code}>
+                            <div className="flex items-center gap-2">
+                              <Languages className="h-4 w-4" />
+                              {lang.name}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="subtitle-format">Subtitle Format</Label>
+                    <Select value={subtitleFormat} onValueChange={(value) => setSubtitleFormat(value as SubtitleFormat)}>
+                      <SelectTrigger id="subtitle-format">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="srt">Download .srt</SelectItem>
+                        <SelectItem value="vtt">Download .vtt (WebVTT)</SelectItem>
+                        <SelectItem value="ass">Download .ass (styled)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {subtitleFormat === 'ass' && (
+                    <div className="md:col-span-2">
+                      <ASSStyleControls style={assStyle} onChange={setAssStyle} />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="transcription-model">Model Size</Label>
+                    <Select
+                      value={modelOptions.size}
+                      onValueChange={(value) => updateModelOptions({ size: value as WhisperModelSize })}
+                    >
+                      <SelectTrigger id="transcription-model">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WHISPER_MODEL_SIZES.map((size) => (
+                          <SelectItem key={size.value} value={size.value}>
+                            {size.label} - {size.description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="transcription-quantization">Quantization</Label>
+                    <Select
+                      value={modelOptions.quantization}
+                      onValueChange={(value) => updateModelOptions({ quantization: value as WhisperQuantization })}
+                    >
+                      <SelectTrigger id="transcription-quantization">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WHISPER_QUANTIZATIONS.map((quantization) => (
+                          <SelectItem key={quantization.value} value={quantization.value}>
+                            {quantization.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="md:col-span-2 space-y-2">
+                    {transcriptionLanguage === 'en' && (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="english-only-model"
+                          checked={modelOptions.englishOnly}
+                          onChange={(e) => updateModelOptions({ englishOnly: e.target.checked })}
+                          className="rounded"
+                        />
+                        <Label htmlFor="english-only-model" className="font-normal">
+                          Use the English-only model (more accurate for English speech)
+                        </Label>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Estimated model download: ≈ {formatFileSize(estimateWhisperDownloadSize(modelOptions))}. Larger models are more accurate but slower; the model is cached after the first download.
+                    </p>
+                  </div>
+                  {transcriptionLanguage !== 'multilingual' && (
+                    <div className="md:col-span-2 space-y-2">
+                      <Label>Also translate subtitles into</Label>
+                      <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {getTranslationLanguages()
+                          .filter(lang => canTranslate(transcriptionLanguage, lang.code))
+                          .map(lang => (
+                            <div key={lang.code} className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                id={`translate-${lang.code}`}
+                                checked={translationLanguages.includes(lang.code)}
+                                onChange={(e) => setTranslationLanguages(prev =>
+                                  e.target.checked ? [...prev, lang.code] : prev.filter(code => code !== lang.code)
+                                )}
+                                className="rounded"
+                              />
+                              <Label htmlFor={`translate-${lang.code}`} className="font-normal">{lang.name}</Label>
+                            </div>
+                          ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Translation runs in your browser; the model is downloaded once on first use.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -639,11 +931,19 @@ export default function Upload() {
               <div className="space-y-3">
                 <div className="flex justify-between items-center text-sm">
                   <span className="font-medium">
-                    {isTranscribing ? 'Transcribing...' : 'Processing...'}
-                  </span>
-                  <span className="text-muted-foreground">
-                    {Math.round(progress)}%
+                    {isTranscribing ? 'Transcribing...' : isTranslating ? 'Translating...' : 'Processing...'}
                   </span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-muted-foreground">
+                      {Math.round(progress)}%
+                    </span>
+                    {processing && (
+                      <Button variant="outline" size="sm" onClick={cancelProcessing}>
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
                 </div>
                 
                 <EnhancedProgress 
@@ -669,6 +969,42 @@ export default function Upload() {
                   </div>
                 )}
                 
+                {/* Live Transcript */}
+                {isTranscribing && partialSegments.length > 0 && (
+                  <div className="space-y-1">
+                    <Label>Live transcript</Label>
+                    <div
+                      ref={liveTranscriptRef}
+                      className="max-h-48 overflow-y-auto rounded-md border bg-muted/30 p-3 text-sm space-y-1"
+                    >
+                      {partialSegments.map((segment, index) => (
+                        <p key={index}>
+                          <span className="font-mono text-xs text-muted-foreground mr-2">
+                            {formatChapterTime(segment.start)}
+                          </span>
+                          {segment.text}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {/* Translation Progress */}
+                {translationProgress && (
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <div className="flex items-center gap-2">
+                      <LoadingSpinner size="sm" />
+                      <span>{translationProgress.message}</span>
+                    </div>
+                    <EnhancedProgress 
+                      value={translationProgress.progress} 
+                      size="sm"
+                      variant="default"
+                      animated
+                    />
+                  </div>
+                )}
+                
                 {/* Audio Processing Progress */}
                 {processingProgress && (
                   <div className="text-sm text-muted-foreground">
@@ -680,6 +1016,32 @@ export default function Upload() {
           </CardContent>
         </Card>
 
+        {/* YouTube Chapter Review */}
+        {chapterReview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>YouTube Chapters</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Proposed from topic changes in the transcript. Adjust times and titles, then save to add them to the YouTube description.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ChapterEditor
+                chapters={chapterReview.chapters}
+                duration={chapterReview.duration}
+                onChange={updateChapters}
+              />
+              <Button
+                onClick={saveReviewedMetadata}
+                disabled={savingReview || validateYouTubeChapters(chapterReview.chapters, chapterReview.duration).length > 0}
+              >
+                {savingReview ? <LoadingSpinner size="sm" className="mr-2" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                Save Metadata
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Generated Metadata Display */}
         {generatedMetadata.length > 0 && (
           <Card>
@@ -701,10 +1063,10 @@ export default function Upload() {
             <CardContent className="space-y-6">
               {generatedMetadata.map((meta) => (
                 <div key={meta.platform} className="border rounded-lg p-4">
-                  <h3 className="font-semibold text-lg mb-3 capitalize flex items-center gap-2">
-                    {meta.platform}
+                  <h3 className="font-semibold text-lg mb-3 flex items-center gap-2">
+                    {getPlatformLabel(meta.platform)}
                     <span className="text-sm bg-primary text-primary-foreground px-2 py-1 rounded">
-                      {meta.platform.toUpperCase()}
+                      {getPlatformLabel(meta.platform).toUpperCase()}
                     </span>
                   </h3>
                   
@@ -726,6 +1088,7 @@ export default function Upload() {
                         </Button>
                       </div>
                       <p className="text-sm p-2 bg-muted rounded">{meta.title}</p>
+                      <ConstraintWarnings violations={meta.violations} field="title" />
                     </div>
 
                     <div>
@@ -745,6 +1108,7 @@ export default function Upload() {
                         </Button>
                       </div>
                       <p className="text-sm p-2 bg-muted rounded whitespace-pre-wrap">{meta.description}</p>
+                      <ConstraintWarnings violations={meta.violations} field="description" />
                     </div>
 
                     <div>
@@ -770,6 +1134,7 @@ export default function Upload() {
                           </span>
                         ))}
                       </div>
+                      <ConstraintWarnings violations={meta.violations} field="hashtags" />
                     </div>
                   </div>
                 </div>
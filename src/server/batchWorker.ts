@@ -0,0 +1,101 @@
+import { hostname } from 'node:os';
+import { QueueManager } from '@/services/queueManager';
+import { createVideoQueueProcessor } from '@/services/videoBatchProcessor';
+import { disposeNodeVideoPipeline, nodeVideoPipeline } from './nodeVideoPipeline';
+import { supabase } from './supabaseClient';
+
+/**
+ * Headless batch worker. Polls for batch jobs with waiting items and processes them with the
+ * same QueueManager and pipeline as the /batch page, so jobs progress without a browser open.
+ * Items are claimed through leases, so any number of workers and tabs can run side by side.
+ *
+ * Configuration (environment):
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  project or local stack to work against
+ *   WORKER_CONCURRENCY                       items processed at once (default 2)
+ *   WORKER_POLL_INTERVAL                     ms between checks for new work when idle (default 5000)
+ *   FFMPEG_PATH                              ffmpeg binary used to extract audio (default 'ffmpeg')
+ */
+
+const concurrency = Number(process.env.WORKER_CONCURRENCY) || 2;
+const pollInterval = Number(process.env.WORKER_POLL_INTERVAL) || 5000;
+
+const queueManager = new QueueManager({
+  concurrency,
+  workerId: `node-${hostname()}-${process.pid}`
+});
+queueManager.registerProcessor('video_processing', createVideoQueueProcessor(nodeVideoPipeline));
+
+let stopping = false;
+let wakeUp: (() => void) | null = null;
+
+// Wait for the poll interval, or until shutdown is requested
+const idle = () => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, pollInterval);
+  wakeUp = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+});
+
+// Oldest job that is pending or processing and has an item ready to claim
+const findRunnableJob = async (): Promise<string | null> => {
+  // Return items abandoned by a closed tab or crashed worker to the queue first; otherwise an
+  // idle worker would never see them, since only claims sweep expired leases
+  const { error: sweepError } = await supabase.rpc('release_expired_queue_leases');
+  if (sweepError) throw sweepError;
+
+  const { data, error } = await supabase
+    .from('queue_items')
+    .select('batch_job_id, batch_jobs!inner(status)')
+    .in('status', ['pending', 'retrying'])
+    .in('batch_jobs.status', ['pending', 'processing'])
+    .or(`retry_after.is.null,retry_after.lte.${new Date().toISOString()}`)
+    .order('created_at')
+    .limit(1);
+
+  if (error) throw error;
+  return data?.[0]?.batch_job_id || null;
+};
+
+const shutdown = (signal: string) => {
+  if (stopping) {
+    // Unfinished items are released once their leases expire
+    console.log(`${signal} received again, exiting now`);
+    process.exit(1);
+  }
+
+  console.log(`${signal} received, finishing items in progress (send again to exit now)`);
+  stopping = true;
+  queueManager.stop();
+  wakeUp?.();
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+const run = async () => {
+  console.log(`Batch worker started (concurrency ${concurrency}, polling every ${pollInterval}ms)`);
+
+  while (!stopping) {
+    let jobId: string | null = null;
+    try {
+      jobId = await findRunnableJob();
+    } catch (error) {
+      console.error('Failed to check for batch jobs:', error);
+    }
+
+    if (jobId) {
+      console.log(`Processing batch job ${jobId}`);
+      // Resolves when the job has nothing left to claim, or after shutdown once in-flight items finish
+      await queueManager.startProcessing(jobId);
+    } else {
+      await idle();
+    }
+  }
+
+  disposeNodeVideoPipeline();
+  console.log('Batch worker stopped');
+  process.exit(0);
+};
+
+run();
@@ -0,0 +1,82 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { TranscriptionProgress } from '@/services/transcriptionService';
+import type { VideoPipeline } from '@/services/videoBatchProcessor';
+import { WhisperTranscriber } from '@/services/whisperTranscriber';
+import { WHISPER_SAMPLE_RATE } from '@/services/whisperModels';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// Decode a media file to mono 16 kHz float samples with the ffmpeg CLI
+const decodeWithFFmpeg = (inputPath: string) => new Promise<Float32Array>((resolve, reject) => {
+  const ffmpeg = spawn(FFMPEG_PATH, [
+    '-v', 'error',
+    '-i', inputPath,
+    '-vn',
+    '-ac', '1',
+    '-ar', String(WHISPER_SAMPLE_RATE),
+    '-f', 'f32le',
+    'pipe:1'
+  ]);
+
+  const chunks: Buffer[] = [];
+  let stderr = '';
+
+  ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+  ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+  ffmpeg.on('error', (error) => reject(new Error(`Failed to start ffmpeg (${FFMPEG_PATH}): ${error.message}`)));
+  ffmpeg.on('close', (code) => {
+    if (code !== 0) {
+      reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim() || 'no output'}`));
+      return;
+    }
+
+    // Copy into a fresh buffer; the concatenated one may not be 4-byte aligned
+    const buffer = Buffer.concat(chunks);
+    resolve(new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length)));
+  });
+});
+
+// Whisper runs in this process, one transcription at a time like the browser's worker, so
+// concurrent items share a single loaded model
+let reportProgress: ((progress: TranscriptionProgress) => void) | null = null;
+const transcriber = new WhisperTranscriber((progress) => reportProgress?.(progress));
+let queue: Promise<unknown> = Promise.resolve();
+
+export const nodeVideoPipeline: VideoPipeline<Float32Array> = {
+  async extractAudio(video, onProgress) {
+    // ffmpeg needs a seekable file for containers that keep their index at the end
+    const dir = await mkdtemp(path.join(tmpdir(), 'batch-worker-'));
+    const inputPath = path.join(dir, 'input');
+
+    try {
+      onProgress(0);
+      await writeFile(inputPath, Buffer.from(await video.arrayBuffer()));
+      const audio = await decodeWithFFmpeg(inputPath);
+      onProgress(100);
+
+      return { audio, duration: audio.length / WHISPER_SAMPLE_RATE };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  },
+
+  transcribe(audio, options, onProgress) {
+    const run = queue.then(async () => {
+      reportProgress = (progress) => onProgress(progress.progress);
+      try {
+        return await transcriber.transcribe(audio, options);
+      } finally {
+        reportProgress = null;
+      }
+    });
+
+    // Keep the queue going after a failed transcription
+    queue = run.catch(() => undefined);
+    return run;
+  }
+};
+
+export const disposeNodeVideoPipeline = () => transcriber.dispose();
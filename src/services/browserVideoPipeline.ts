@@ -0,0 +1,32 @@
+import { VideoToAudioProcessor } from '@/utils/videoToAudio';
+import { TranscriptionService, WHISPER_SAMPLE_RATE } from './transcriptionService';
+import { createVideoQueueProcessor, VideoPipeline } from './videoBatchProcessor';
+
+// One service for all items, so concurrent items queue in a single transcription worker
+// instead of each loading its own copy of Whisper
+let transcriptionService: TranscriptionService | null = null;
+
+const getTranscriptionService = () => {
+  if (!transcriptionService) {
+    transcriptionService = new TranscriptionService();
+  }
+  return transcriptionService;
+};
+
+export const browserVideoPipeline: VideoPipeline<Float32Array> = {
+  async extractAudio(video, onProgress) {
+    const processor = new VideoToAudioProcessor((progress) => onProgress(progress.progress));
+    const { audioData, duration } = await processor.extractSamples(video, { sampleRate: WHISPER_SAMPLE_RATE });
+    return { audio: audioData, duration };
+  },
+
+  transcribe(audio, options, onProgress) {
+    return getTranscriptionService().transcribeAudio(audio, {
+      ...options,
+      onProgress: (progress) => onProgress(progress.progress)
+    });
+  }
+};
+
+// Batch processor used while the /batch page is open
+export const processVideoQueueItem = createVideoQueueProcessor(browserVideoPipeline);
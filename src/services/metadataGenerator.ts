@@ -1,3 +1,13 @@
+import { TranscriptionResult } from './transcriptionService';
+import { transcriptAnalyzer, TranscriptChapter } from './transcriptAnalyzer';
+import { MetadataTemplate, MetadataTemplateSet, TEMPLATE_PACKS } from './metadataTemplates';
+import { getPlatform, getPlatforms, PlatformProfile } from './platformRegistry';
+import { splitSentences, toTitleCase } from '@/utils/textAnalysis';
+import { formatChapterTime, proposeYouTubeChapters, validateYouTubeChapters } from '@/utils/youtubeChapters';
+import { compileTemplate, TemplateContext, TemplateError } from '@/utils/templateEngine';
+import { ConstraintViolation, enforcePlatformConstraints } from '@/utils/metadataConstraints';
+import { normalizeHashtag } from '@/utils/hashtags';
+
 interface MetadataInput {
   creatorName: string;
   videoTopic: string;
@@ -5,185 +15,162 @@ interface MetadataInput {
   keywords?: string;
 }
 
+interface TranscriptMetadataInput extends MetadataInput {
+  transcript: TranscriptionResult;
+  chapters?: TranscriptChapter[]; // user-edited YouTube chapters; proposed from the transcript when omitted
+}
+
 interface PlatformMetadata {
   platform: string;
+  language: string;
   title: string;
   description: string;
   hashtags: string[];
+  keyPhrases?: string[];
+  chapters?: TranscriptChapter[];
+  violations: ConstraintViolation[]; // fixes applied to fit the platform's limits and problems that remain
 }
 
+// Remove trailing spaces and the blank runs left behind by skipped template blocks
+const tidy = (text: string) => text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
 export class MetadataGenerator {
-  private getRandomElement<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
-  }
+  private generateHashtags(
+    topic: string,
+    keywords: string,
+    profile: PlatformProfile,
+    language: string,
+    contentPhrases: string[] = []
+  ): string[] {
+    // Keep only the characters the platform allows in a hashtag, accents included
+    const toTag = (text: string) => normalizeHashtag(text, language, profile.hashtags.allowedCharacters);
 
-  private generateHashtags(topic: string, keywords: string, platform: string): string[] {
     const baseHashtags = [];
     
-    // Extract hashtags from topic and keywords
-    const topicWords = topic.toLowerCase().split(' ').filter(word => word.length > 2);
-    const keywordsList = keywords ? keywords.split(',').map(k => k.trim().toLowerCase()) : [];
-    
-    // Add topic-based hashtags
-    topicWords.forEach(word => {
-      if (word.length > 3) {
-        baseHashtags.push(`#${word.replace(/[^a-zA-Z0-9]/g, '')}`);
-      }
-    });
-    
-    // Add keyword-based hashtags
-    keywordsList.forEach(keyword => {
-      if (keyword.length > 2) {
-        baseHashtags.push(`#${keyword.replace(/[^a-zA-Z0-9]/g, '')}`);
+    // Add hashtags from phrases actually spoken in the video first
+    contentPhrases.forEach(phrase => {
+      const tag = toTag(phrase);
+      if (tag.length > 3 && tag.length <= 25) {
+        baseHashtags.push(`#${tag}`);
       }
     });
+
+    // Extract hashtags from topic and keywords
+    const topicWords = topic.split(/\s+/).map(toTag).filter(word => word.length > 3);
+    const keywordsList = keywords ? keywords.split(',').map(toTag).filter(keyword => keyword.length > 2) : [];
     
-    // Platform-specific hashtags
-    const platformHashtags = {
-      youtube: ['#youtube', '#video', '#content', '#subscribe'],
-      instagram: ['#instagram', '#reel', '#viral', '#explore', '#follow'],
-      tiktok: ['#tiktok', '#fyp', '#viral', '#trending', '#foryou']
-    };
+    // Add topic-based and keyword-based hashtags
+    topicWords.forEach(word => baseHashtags.push(`#${word}`));
+    keywordsList.forEach(keyword => baseHashtags.push(`#${keyword}`));
     
-    const platformSpecific = platformHashtags[platform.toLowerCase()] || [];
+    const platformSpecific = profile.hashtags.defaults.map(tag => `#${tag}`);
+    const required = (profile.hashtags.required || []).map(tag => `#${tag}`);
     
     // Combine and deduplicate
-    const allHashtags = [...new Set([...baseHashtags, ...platformSpecific])];
-    
-    // Return appropriate number for each platform
-    const limits = { youtube: 15, instagram: 20, tiktok: 10 };
-    const limit = limits[platform.toLowerCase()] || 10;
+    const allHashtags = [...new Set([...required, ...baseHashtags, ...platformSpecific])].filter(tag => tag.length > 1);
     
-    return allHashtags.slice(0, limit);
+    // Return the recommended number for the platform
+    return allHashtags.slice(0, Math.min(profile.hashtags.recommendedCount, profile.hashtags.maxCount));
   }
 
-  private generateYouTubeMetadata(input: MetadataInput): PlatformMetadata {
-    const titleTemplates = [
-      `${input.videoTopic} - Complete Guide`,
-      `How to ${input.videoTopic}`,
-      `${input.videoTopic}: Everything You Need to Know`,
-      `The Ultimate ${input.videoTopic} Tutorial`,
-      `${input.videoTopic} Explained Simply`
-    ];
-
-    const title = this.getRandomElement(titleTemplates);
-    
-    const description = `Welcome to ${input.creatorName}'s channel! 
-
-In this video, we dive deep into ${input.videoTopic}. Whether you're a beginner or looking to expand your knowledge, this comprehensive guide has something for everyone.
-
-🎯 What you'll learn:
-• Key concepts about ${input.videoTopic}
-• Practical tips and strategies
-• Real-world applications
-• Expert insights and advice
-
-💡 Don't forget to:
-• Subscribe for more content like this
-• Hit the notification bell
-• Leave a comment with your thoughts
-• Share with friends who might find this helpful
-
-🔗 Connect with me:
-Follow for more amazing content and updates!
-
-#${input.videoTopic.replace(/\s+/g, '')} #Tutorial #Guide
-
----
-Created by ${input.creatorName}`;
-
-    const hashtags = this.generateHashtags(input.videoTopic, input.keywords || '', 'youtube');
-
-    return {
-      platform: 'YouTube',
-      title,
-      description,
-      hashtags
-    };
+  // Built-in template in the requested language, or the platform's own default when no pack covers it
+  private builtInTemplate(platform: string, language: string): MetadataTemplate | undefined {
+    return TEMPLATE_PACKS[language]?.[platform] || getPlatform(platform)?.defaultTemplate;
   }
 
-  private generateInstagramMetadata(input: MetadataInput): PlatformMetadata {
-    const captionTemplates = [
-      `✨ ${input.videoTopic} vibes ✨`,
-      `💫 Exploring ${input.videoTopic} today`,
-      `🔥 ${input.videoTopic} content dropping!`,
-      `⚡ ${input.videoTopic} insights coming your way`,
-      `🌟 All about ${input.videoTopic}`
-    ];
-
-    const title = this.getRandomElement(captionTemplates);
-    
-    const description = `${title}
-
-Hey beautiful souls! 👋 It's ${input.creatorName} here with some fresh content about ${input.videoTopic}. 
-
-✨ What's in this reel:
-• Amazing insights about ${input.videoTopic}
-• Tips that actually work
-• Content you'll love and share
-
-💕 Your support means everything! Don't forget to:
-• Double tap if you loved this ❤️
-• Save for later 📌
-• Share with your bestie 👯‍♀️
-• Follow for daily inspiration 🌈
-
-Drop a 🔥 in the comments if you want more ${input.videoTopic} content!
-
----
-Created with love by ${input.creatorName} 💝`;
+  // Render a platform's title and description, falling back to the built-in template if a custom one is malformed
+  public renderTemplate(template: MetadataTemplate, context: TemplateContext): { title: string; description: string } {
+    try {
+      const title = tidy(compileTemplate(template.titleTemplate)(context));
+      const description = tidy(compileTemplate(template.descriptionTemplate)({ ...context, title }));
+      return { title, description };
+    } catch (error) {
+      const fallback = this.builtInTemplate(template.platform, String(context.language || 'en'));
+      if (error instanceof TemplateError && fallback && fallback !== template) {
+        console.warn(`Template "${template.name}" is invalid, using the built-in template:`, error.message);
+        return this.renderTemplate(fallback, context);
+      }
+      throw error;
+    }
+  }
 
-    const hashtags = this.generateHashtags(input.videoTopic, input.keywords || '', 'instagram');
+  private generate(
+    context: TemplateContext,
+    input: MetadataInput,
+    templates: MetadataTemplateSet,
+    extras: { contentPhrases?: string[]; keyPhrases?: string[]; chapters?: TranscriptChapter[] } = {}
+  ): PlatformMetadata[] {
+    const language = input.language || 'en';
+
+    return getPlatforms().map(profile => {
+      const template = templates[profile.key] || this.builtInTemplate(profile.key, language);
+      const { title, description } = this.renderTemplate(template, { ...context, platform: profile.label });
+
+      const { metadata, violations } = enforcePlatformConstraints({
+        platform: profile.key,
+        title,
+        description,
+        hashtags: this.generateHashtags(input.videoTopic, input.keywords || '', profile, language, extras.contentPhrases)
+      });
+
+      return {
+        ...metadata,
+        language,
+        keyPhrases: extras.keyPhrases,
+        chapters: profile.key === 'youtube' ? extras.chapters : undefined,
+        violations
+      };
+    });
+  }
 
+  private baseContext(input: MetadataInput): TemplateContext {
     return {
-      platform: 'Instagram',
-      title,
-      description,
-      hashtags
+      creator: input.creatorName,
+      topic: input.videoTopic,
+      language: input.language || 'en',
+      keywords: (input.keywords || '').split(',').map(k => k.trim()).filter(Boolean)
     };
   }
 
-  private generateTikTokMetadata(input: MetadataInput): PlatformMetadata {
-    const titleTemplates = [
-      `${input.videoTopic} hack you NEED to know! 🤯`,
-      `POV: You finally understand ${input.videoTopic} ✨`,
-      `${input.videoTopic} but make it simple 💫`,
-      `This ${input.videoTopic} tip changed everything 🔥`,
-      `${input.videoTopic} explained in 60 seconds ⏰`
-    ];
-
-    const title = this.getRandomElement(titleTemplates);
-    
-    const description = `${title}
-
-Follow @${input.creatorName.toLowerCase().replace(/\s+/g, '')} for more ${input.videoTopic} content! 
-
-🔥 This ${input.videoTopic} tip is EVERYTHING
-✨ Save this for later
-💫 Tag someone who needs to see this
-🚀 Follow for daily tips
-
-Which part surprised you the most? Let me know! 👇
-
-#${input.videoTopic.replace(/\s+/g, '')} #viral #tips`;
-
-    const hashtags = this.generateHashtags(input.videoTopic, input.keywords || '', 'tiktok');
+  /**
+   * Build metadata from the creator name and topic using each platform's selected template
+   */
+  public generatePlatformMetadata(input: MetadataInput, templates: MetadataTemplateSet = {}): PlatformMetadata[] {
+    return this.generate(this.baseContext(input), input, templates);
+  }
 
-    return {
-      platform: 'TikTok',
-      title,
-      description,
-      hashtags
+  /**
+   * Build metadata from what is actually said in the video. Key phrases, summary, chapters and
+   * hashtags come from the transcript and feed the same templates, so the same transcript and
+   * templates always produce the same output.
+   */
+  public generateFromTranscript(input: TranscriptMetadataInput, templates: MetadataTemplateSet = {}): PlatformMetadata[] {
+    const insights = transcriptAnalyzer.analyze(input.transcript, { language: input.language });
+    const topic = input.videoTopic.trim() || toTitleCase(insights.topics[0] || 'this video');
+    const lead = toTitleCase(insights.keyPhrases[0] || '');
+
+    // Only list chapters YouTube will accept, otherwise the timestamps show up as plain text
+    const chapters = input.chapters ?? proposeYouTubeChapters(input.transcript.segments);
+    const validChapters = validateYouTubeChapters(chapters, insights.duration).length === 0 ? chapters : undefined;
+
+    const context: TemplateContext = {
+      ...this.baseContext({ ...input, videoTopic: topic }),
+      summary: insights.summary,
+      hook: splitSentences(insights.summary)[0] || '',
+      lead: lead.toLowerCase() === topic.toLowerCase() ? '' : lead,
+      keyPhrases: insights.keyPhrases.slice(0, 5),
+      chapters: (validChapters || []).map(chapter => {
+        const time = formatChapterTime(chapter.start);
+        return { time, title: chapter.title.trim(), text: `${time} ${chapter.title.trim()}` };
+      })
     };
-  }
 
-  public generatePlatformMetadata(input: MetadataInput): PlatformMetadata[] {
-    return [
-      this.generateYouTubeMetadata(input),
-      this.generateInstagramMetadata(input),
-      this.generateTikTokMetadata(input)
-    ];
+    return this.generate(context, { ...input, videoTopic: topic }, templates, {
+      contentPhrases: [...insights.keyPhrases, ...insights.topics],
+      keyPhrases: insights.keyPhrases,
+      chapters: validChapters
+    });
   }
 }
 
-export const metadataGenerator = new MetadataGenerator();
\ No newline at end of file
+export const metadataGenerator = new MetadataGenerator();
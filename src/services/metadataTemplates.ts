@@ -0,0 +1,175 @@
+import { DE_TEMPLATES } from './templatePacks/de';
+import { ES_TEMPLATES } from './templatePacks/es';
+import { FR_TEMPLATES } from './templatePacks/fr';
+import { IT_TEMPLATES } from './templatePacks/it';
+import { PT_TEMPLATES } from './templatePacks/pt';
+
+export interface MetadataTemplate {
+  id?: string;
+  platform: string;
+  name: string;
+  titleTemplate: string;
+  descriptionTemplate: string;
+  isDefault?: boolean;
+}
+
+// Selected template per platform key (e.g. 'youtube'); missing platforms use the built-in template
+export type MetadataTemplateSet = Partial<Record<string, MetadataTemplate>>;
+
+// Variables available to every metadata template, shown as help in Settings
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'creator', description: 'Creator name' },
+  { name: 'topic', description: 'Video topic' },
+  { name: 'keywords', description: 'List of keywords entered on the upload page' },
+  { name: 'language', description: 'Metadata language code (en, es, fr, de, it, pt)' },
+  { name: 'platform', description: 'Platform name' },
+  { name: 'title', description: 'The rendered title (description template only)' },
+  { name: 'summary', description: 'Summary of what is said (transcript only)' },
+  { name: 'hook', description: 'First sentence of the summary (transcript only)' },
+  { name: 'lead', description: 'Most prominent spoken key phrase, when it differs from the topic (transcript only)' },
+  { name: 'keyPhrases', description: 'List of spoken key phrases (transcript only)' },
+  { name: 'chapters', description: 'List of chapters with time and title; renders as a YouTube chapter list (transcript only)' }
+];
+
+export const BUILT_IN_TEMPLATES: Record<string, MetadataTemplate> = {
+  youtube: {
+    platform: 'youtube',
+    name: 'Complete guide',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Complete Guide{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}🎯 In this video:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+{{#if chapters}}⏱️ Chapters:
+{{chapters}}{{/if}}
+{{else}}Welcome to {{creator}}'s channel!
+
+In this video, we dive deep into {{topic}}. Whether you're a beginner or looking to expand your knowledge, this comprehensive guide has something for everyone.
+
+🎯 What you'll learn:
+• Key concepts about {{topic}}
+• Practical tips and strategies
+• Real-world applications
+• Expert insights and advice
+
+💡 Don't forget to:
+• Subscribe for more content like this
+• Hit the notification bell
+• Leave a comment with your thoughts
+• Share with friends who might find this helpful
+
+🔗 Connect with me:
+Follow for more amazing content and updates!
+
+{{topic | hashtag}} #Tutorial #Guide
+{{/if}}
+---
+Created by {{creator}}`
+  },
+  instagram: {
+    platform: 'instagram',
+    name: 'Good vibes',
+    titleTemplate: '{{#if lead}}✨ {{lead}} ✨{{else}}✨ {{topic}} vibes ✨{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}✨ What's inside:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+Save this for later 📌 and follow for more {{topic}} content!
+{{else}}Hey beautiful souls! 👋 It's {{creator}} here with some fresh content about {{topic}}.
+
+✨ What's in this reel:
+• Amazing insights about {{topic}}
+• Tips that actually work
+• Content you'll love and share
+
+💕 Your support means everything! Don't forget to:
+• Double tap if you loved this ❤️
+• Save for later 📌
+• Share with your bestie 👯‍♀️
+• Follow for daily inspiration 🌈
+
+Drop a 🔥 in the comments if you want more {{topic}} content!
+{{/if}}
+---
+Created with love by {{creator}} 💝`
+  },
+  tiktok: {
+    platform: 'tiktok',
+    name: 'Quick hack',
+    titleTemplate: '{{#if lead}}{{lead}} explained 💫{{else}}{{topic}} hack you NEED to know! 🤯{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if hook}}{{hook}}
+
+Follow @{{creator | handle}} for more {{topic}} content! 👇{{else}}Follow @{{creator | handle}} for more {{topic}} content!
+
+🔥 This {{topic}} tip is EVERYTHING
+✨ Save this for later
+💫 Tag someone who needs to see this
+🚀 Follow for daily tips
+
+Which part surprised you the most? Let me know! 👇
+
+{{topic | hashtag}} #viral #tips{{/if}}`
+  },
+  youtube_shorts: {
+    platform: 'youtube_shorts',
+    name: 'Quick take',
+    titleTemplate: '{{#if lead}}{{lead}} in 60 seconds{{else}}{{topic}} in 60 seconds{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}A quick look at {{topic}} from {{creator}}.{{/if}}
+
+Subscribe for more {{topic}}!`
+  },
+  linkedin: {
+    platform: 'linkedin',
+    name: 'Professional insight',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}What I learned about {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}Key takeaways:
+{{#each keyPhrases}}→ {{this | title}}
+{{/each}}{{/if}}{{else}}I've been spending time with {{topic}} lately, and a few lessons stood out.
+
+In this video I share practical takeaways you can apply right away.
+{{/if}}
+What's your experience with {{topic}}? I'd love to hear your thoughts in the comments.`
+  },
+  x: {
+    platform: 'x',
+    name: 'Short post',
+    titleTemplate: '{{#if lead}}{{lead}}{{else}}{{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}New video on {{topic}} 🎬{{/if}}`
+  },
+  facebook: {
+    platform: 'facebook',
+    name: 'Community post',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Everything You Need to Know{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+{{else}}{{creator}} here with a new video about {{topic}}!
+
+Watch to the end for tips you can use today.
+{{/if}}
+👍 Like and share if you found this helpful, and tell us in the comments what you'd like to see next!`
+  },
+  pinterest: {
+    platform: 'pinterest',
+    name: 'Idea pin',
+    titleTemplate: '{{#if lead}}{{lead}} | {{topic}}{{else}}{{topic}} Ideas & Tips{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Easy {{topic}} ideas and tips from {{creator}}.{{/if}}
+Save this pin for later!`
+  }
+};
+
+// Built-in templates by metadata language; languages without a pack use English
+export const TEMPLATE_PACKS: Record<string, Record<string, MetadataTemplate>> = {
+  en: BUILT_IN_TEMPLATES,
+  es: ES_TEMPLATES,
+  fr: FR_TEMPLATES,
+  de: DE_TEMPLATES,
+  it: IT_TEMPLATES,
+  pt: PT_TEMPLATES
+};
@@ -0,0 +1,136 @@
+import { BUILT_IN_TEMPLATES, MetadataTemplate } from './metadataTemplates';
+
+// How a platform treats URLs written into the description
+export type LinkPolicy =
+  | 'allowed'        // links are clickable
+  | 'not-clickable'  // links show as plain text
+  | 'discouraged';   // links work but reduce reach
+
+export interface PlatformProfile {
+  key: string;    // stored in video_metadata.platform
+  label: string;
+  title: {
+    maxLength: number;
+  };
+  description: {
+    maxLength: number;
+    hashtagsCountTowardLimit?: boolean; // hashtags are posted inside the description text
+  };
+  hashtags: {
+    maxCount: number;             // hard platform limit
+    recommendedCount: number;     // how many we generate
+    allowedCharacters: RegExp;    // matches one character permitted after the #
+    defaults: string[];           // platform tags appended after content tags
+    required?: string[];          // tags always included, ahead of content tags
+  };
+  links: LinkPolicy;
+  forbiddenCharacters?: RegExp;   // characters rejected in the title and description
+  defaultTemplate: MetadataTemplate;
+}
+
+const registry = new Map<string, PlatformProfile>();
+
+/**
+ * Register a publishing platform. Platforms are generated and displayed in registration order;
+ * registering an existing key replaces its profile.
+ */
+export function registerPlatform(profile: PlatformProfile) {
+  registry.set(profile.key, profile);
+}
+
+export function getPlatform(key: string): PlatformProfile | undefined {
+  return registry.get(key.toLowerCase());
+}
+
+export function getPlatforms(): PlatformProfile[] {
+  return Array.from(registry.values());
+}
+
+export function getPlatformLabel(key: string): string {
+  return getPlatform(key)?.label || key;
+}
+
+const WORD_CHARACTERS = /[\p{L}\p{N}_]/u;
+const ALPHANUMERIC = /[\p{L}\p{N}]/u;
+
+registerPlatform({
+  key: 'youtube',
+  label: 'YouTube',
+  title: { maxLength: 100 },
+  description: { maxLength: 5000 },
+  hashtags: { maxCount: 15, recommendedCount: 15, allowedCharacters: ALPHANUMERIC, defaults: ['youtube', 'video', 'content', 'subscribe'] },
+  links: 'allowed',
+  forbiddenCharacters: /[<>]/,
+  defaultTemplate: BUILT_IN_TEMPLATES.youtube
+});
+
+registerPlatform({
+  key: 'youtube_shorts',
+  label: 'YouTube Shorts',
+  title: { maxLength: 100 },
+  description: { maxLength: 5000 },
+  hashtags: { maxCount: 15, recommendedCount: 8, allowedCharacters: ALPHANUMERIC, defaults: ['youtubeshorts'], required: ['shorts'] },
+  links: 'not-clickable',
+  forbiddenCharacters: /[<>]/,
+  defaultTemplate: BUILT_IN_TEMPLATES.youtube_shorts
+});
+
+registerPlatform({
+  key: 'instagram',
+  label: 'Instagram',
+  title: { maxLength: 125 },
+  description: { maxLength: 2200, hashtagsCountTowardLimit: true },
+  hashtags: { maxCount: 30, recommendedCount: 20, allowedCharacters: WORD_CHARACTERS, defaults: ['instagram', 'reel', 'viral', 'explore', 'follow'] },
+  links: 'not-clickable',
+  defaultTemplate: BUILT_IN_TEMPLATES.instagram
+});
+
+registerPlatform({
+  key: 'tiktok',
+  label: 'TikTok',
+  title: { maxLength: 100 },
+  description: { maxLength: 2200, hashtagsCountTowardLimit: true },
+  hashtags: { maxCount: 30, recommendedCount: 10, allowedCharacters: WORD_CHARACTERS, defaults: ['tiktok', 'fyp', 'viral', 'trending', 'foryou'] },
+  links: 'not-clickable',
+  defaultTemplate: BUILT_IN_TEMPLATES.tiktok
+});
+
+registerPlatform({
+  key: 'linkedin',
+  label: 'LinkedIn',
+  title: { maxLength: 200 },
+  description: { maxLength: 3000, hashtagsCountTowardLimit: true },
+  hashtags: { maxCount: 30, recommendedCount: 5, allowedCharacters: ALPHANUMERIC, defaults: ['learning', 'professionaldevelopment'] },
+  links: 'discouraged',
+  defaultTemplate: BUILT_IN_TEMPLATES.linkedin
+});
+
+registerPlatform({
+  key: 'x',
+  label: 'X (Twitter)',
+  title: { maxLength: 100 },
+  description: { maxLength: 280, hashtagsCountTowardLimit: true },
+  hashtags: { maxCount: 10, recommendedCount: 3, allowedCharacters: WORD_CHARACTERS, defaults: [] },
+  links: 'allowed',
+  defaultTemplate: BUILT_IN_TEMPLATES.x
+});
+
+registerPlatform({
+  key: 'facebook',
+  label: 'Facebook',
+  title: { maxLength: 255 },
+  description: { maxLength: 63206, hashtagsCountTowardLimit: true },
+  hashtags: { maxCount: 30, recommendedCount: 5, allowedCharacters: WORD_CHARACTERS, defaults: ['facebookvideo'] },
+  links: 'allowed',
+  defaultTemplate: BUILT_IN_TEMPLATES.facebook
+});
+
+registerPlatform({
+  key: 'pinterest',
+  label: 'Pinterest',
+  title: { maxLength: 100 },
+  description: { maxLength: 500, hashtagsCountTowardLimit: true },
+  hashtags: { maxCount: 20, recommendedCount: 5, allowedCharacters: ALPHANUMERIC, defaults: ['pinterestinspired'] },
+  links: 'not-clickable',
+  defaultTemplate: BUILT_IN_TEMPLATES.pinterest
+});
@@ -1,25 +1,64 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { assertTransition, QueueItemStatus } from './queueStateMachine';
 
 export interface QueueManagerOptions {
   concurrency: number;
   retryDelay: number;
   maxRetries: number;
+  leaseSeconds: number; // how long a claimed item stays reserved without a heartbeat
+  heartbeatInterval: number;
+  workerId: string; // identifies this tab or process as the holder of its leases
+}
+
+// Last stage an item completed, kept in queue_items.metadata.checkpoint so it can pick up from there
+export interface QueueCheckpoint {
+  stage: string;
+  data: Record<string, Json>;
+}
+
+export interface ProcessorContext {
+  // Set when an earlier run of this item got part way through, paused or failed after a checkpoint
+  resumeFrom?: QueueCheckpoint;
+  // Save progress after a stage; throws QueueItemPausedError if the job has been paused meanwhile
+  checkpoint: (stage: string, data?: Record<string, Json>) => Promise<void>;
+  // Record what the item produced in its metadata and clear its checkpoint
+  saveResult: (result: Record<string, Json>) => Promise<void>;
 }
 
 export interface ProcessorFunction<T = any> {
-  (item: T, updateProgress: (progress: number, stage?: string) => Promise<void>): Promise<void>;
+  (
+    item: T,
+    updateProgress: (progress: number, stage?: string) => Promise<void>,
+    context: ProcessorContext
+  ): Promise<void>;
 }
 
+// Thrown from a checkpoint to stop an item whose job was paused; the item goes back to pending
+export class QueueItemPausedError extends Error {
+  constructor(stage: string) {
+    super(`Paused after ${stage}`);
+    this.name = 'QueueItemPausedError';
+  }
+}
+
+type QueueItemRow = Tables<'queue_items'>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export class QueueManager {
-  private processing = new Map<string, boolean>();
   private processors = new Map<string, ProcessorFunction>();
   private options: QueueManagerOptions;
+  private stopping = false;
 
   constructor(options: Partial<QueueManagerOptions> = {}) {
     this.options = {
       concurrency: 3,
       retryDelay: 1000,
       maxRetries: 3,
+      leaseSeconds: 60,
+      heartbeatInterval: 20000,
+      workerId: `worker-${crypto.randomUUID()}`,
       ...options
     };
   }
@@ -42,19 +81,8 @@ export class QueueManager {
         throw new Error('Batch job not found');
       }
 
-      // Get pending queue items
-      const { data: queueItems, error: queueError } = await supabase
-        .from('queue_items')
-        .select('*')
-        .eq('batch_job_id', batchJobId)
-        .in('status', ['pending', 'retrying'])
-        .order('priority', { ascending: false })
-        .order('created_at');
-
-      if (queueError) throw queueError;
-
-      if (!queueItems || queueItems.length === 0) {
-        console.log('No items to process in queue');
+      if (batchJob.status === 'paused' || batchJob.status === 'cancelled') {
+        console.log(`Batch job is ${batchJob.status}, not starting`);
         return;
       }
 
@@ -63,23 +91,15 @@ export class QueueManager {
         .from('batch_jobs')
         .update({
           status: 'processing',
-          started_at: new Date().toISOString()
+          started_at: batchJob.started_at || new Date().toISOString()
         })
         .eq('id', batchJobId);
 
-      // Process items with concurrency control
-      const semaphore = new Semaphore(this.options.concurrency);
-      const processingPromises = queueItems.map(item =>
-        semaphore.acquire().then(async (release) => {
-          try {
-            await this.processItem(item);
-          } finally {
-            release();
-          }
-        })
-      );
-
-      await Promise.allSettled(processingPromises);
+      // Each worker loop claims items one at a time until none are left. Claims only succeed
+      // while the job is processing, so pausing stops new items from starting while in-flight
+      // ones finish or checkpoint. Other tabs and workers can claim from the same job safely.
+      const workers = Array.from({ length: this.options.concurrency }, () => this.runWorker(batchJobId));
+      await Promise.allSettled(workers);
 
       // Update final batch job status
       await supabase.rpc('update_batch_job_progress', {
@@ -100,36 +120,120 @@ export class QueueManager {
     }
   }
 
-  // Process individual queue item
-  private async processItem(item: any) {
-    if (this.processing.has(item.id)) {
-      return; // Already processing
+  // Claim one specific item and process it, retrying with backoff on failure. For callers that
+  // schedule items themselves; returns false if the item couldn't be claimed.
+  async processQueueItem(queueItemId: string, processor?: ProcessorFunction<QueueItemRow>): Promise<boolean> {
+    const { data, error } = await supabase.rpc('claim_queue_item', {
+      _queue_item_id: queueItemId,
+      _worker_id: this.options.workerId,
+      _lease_seconds: this.options.leaseSeconds
+    });
+
+    if (error) throw error;
+    if (!data || data.length === 0) return false;
+
+    const retryDelay = await this.processItem(data[0], processor);
+    if (retryDelay !== null) {
+      setTimeout(() => {
+        this.processQueueItem(queueItemId, processor).catch(error => {
+          console.error(`Error retrying item ${queueItemId}:`, error);
+        });
+      }, retryDelay);
     }
+    return true;
+  }
 
-    this.processing.set(item.id, true);
+  // Stop claiming new items. Items already running finish normally, so startProcessing
+  // resolves once they are done; used to shut a worker process down.
+  stop() {
+    this.stopping = true;
+  }
 
-    try {
-      // Update item status to processing
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'processing',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', item.id);
+  private async runWorker(batchJobId: string) {
+    while (!this.stopping) {
+      const { data, error } = await supabase.rpc('claim_next_queue_item', {
+        _batch_job_id: batchJobId,
+        _worker_id: this.options.workerId,
+        _lease_seconds: this.options.leaseSeconds
+      });
 
-      // Get the appropriate processor
-      const batchJob = await supabase
-        .from('batch_jobs')
-        .select('job_type')
-        .eq('id', item.batch_job_id)
-        .single();
+      if (error) throw error;
+
+      if (data && data.length > 0) {
+        await this.processItem(data[0]);
+        continue;
+      }
+
+      // Nothing to claim now; wait for items backing off before a retry, if any
+      const wait = await this.getRetryWait(batchJobId);
+      if (wait === null) return;
+      await sleep(wait);
+    }
+  }
 
-      const jobType = batchJob.data?.job_type || 'default';
-      const processor = this.processors.get(jobType);
+  // Time until the job's next retrying item becomes claimable, or null when there are none
+  // (or the job is no longer running)
+  private async getRetryWait(batchJobId: string): Promise<number | null> {
+    if (await this.getJobStatus(batchJobId) !== 'processing') return null;
 
+    const { data } = await supabase
+      .from('queue_items')
+      .select('retry_after')
+      .eq('batch_job_id', batchJobId)
+      .eq('status', 'retrying')
+      .order('retry_after', { ascending: true, nullsFirst: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (!data) return null;
+    const retryAt = data.retry_after ? new Date(data.retry_after).getTime() : Date.now();
+    return Math.max(0, retryAt - Date.now()) + 100;
+  }
+
+  private async getJobStatus(batchJobId: string) {
+    const { data } = await supabase
+      .from('batch_jobs')
+      .select('status')
+      .eq('id', batchJobId)
+      .single();
+
+    return data?.status;
+  }
+
+  // Process an item this worker has claimed. Returns the delay before a retry, or null when
+  // the item is done with (completed, failed, paused or taken over by another worker).
+  private async processItem(item: QueueItemRow, processor?: ProcessorFunction<QueueItemRow>): Promise<number | null> {
+    const { workerId } = this.options;
+    let leaseLost = false;
+
+    // Keep the lease alive while the processor runs; if it lapses the sweeper hands the item
+    // to another worker
+    const heartbeat = setInterval(async () => {
+      const { data: held, error } = await supabase.rpc('heartbeat_queue_item', {
+        _queue_item_id: item.id,
+        _worker_id: workerId,
+        _lease_seconds: this.options.leaseSeconds
+      });
+      if (!error && !held) {
+        leaseLost = true;
+        clearInterval(heartbeat);
+      }
+    }, this.options.heartbeatInterval);
+
+    try {
       if (!processor) {
-        throw new Error(`No processor registered for job type: ${jobType}`);
+        const { data: batchJob } = await supabase
+          .from('batch_jobs')
+          .select('job_type')
+          .eq('id', item.batch_job_id)
+          .single();
+
+        const jobType = batchJob?.job_type || 'default';
+        processor = this.processors.get(jobType);
+
+        if (!processor) {
+          throw new Error(`No processor registered for job type: ${jobType}`);
+        }
       }
 
       // Create progress update function
@@ -141,81 +245,188 @@ export class QueueManager {
             processing_stage: stage,
             stage_progress: progress
           })
-          .eq('id', item.id);
+          .eq('id', item.id)
+          .eq('worker_id', workerId);
+      };
+
+      const metadata = (item.metadata || {}) as Record<string, Json>;
+      const context: ProcessorContext = {
+        resumeFrom: (metadata.checkpoint as unknown as QueueCheckpoint) || undefined,
+        checkpoint: (stage, data = {}) => {
+          if (leaseLost) {
+            throw new Error('Lease on queue item expired; another worker has taken it over');
+          }
+          return this.checkpointItem(item, stage, data);
+        },
+        saveResult: result => this.saveItemResult(item, result)
       };
 
       // Process the item
-      await processor(item, updateProgress);
+      await processor({ ...item, metadata }, updateProgress, context);
 
-      // Mark as completed
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'completed',
-          progress: 100,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', item.id);
+      // Mark as completed, unless the lease was lost and the item now belongs to someone else
+      await this.releaseItem(item, 'completed', {
+        progress: 100,
+        completed_at: new Date().toISOString()
+      });
+
+      return null;
 
     } catch (error) {
+      if (error instanceof QueueItemPausedError) {
+        // Back to the queue with its checkpoint; resuming the job continues from there
+        await this.releaseItem(item, 'pending', { processing_stage: error.message });
+        return null;
+      }
+
       console.error(`Error processing item ${item.id}:`, error);
-      await this.handleProcessingError(item, error);
+      return await this.handleProcessingError(item, error);
     } finally {
-      this.processing.delete(item.id);
+      clearInterval(heartbeat);
     }
   }
 
-  // Handle processing errors with retry logic
-  private async handleProcessingError(item: any, error: any) {
+  // Record a finished stage on the item, then stop it if its job has been paused
+  private async checkpointItem(item: QueueItemRow, stage: string, data: Record<string, Json>) {
+    const { data: current } = await supabase
+      .from('queue_items')
+      .select('metadata')
+      .eq('id', item.id)
+      .single();
+
+    const checkpoint: QueueCheckpoint = { stage, data };
+    const { error } = await supabase
+      .from('queue_items')
+      .update({
+        metadata: {
+          ...((current?.metadata as Record<string, Json>) || {}),
+          checkpoint: checkpoint as unknown as Json
+        }
+      })
+      .eq('id', item.id)
+      .eq('worker_id', this.options.workerId);
+
+    if (error) throw error;
+
+    if (await this.getJobStatus(item.batch_job_id) === 'paused') {
+      throw new QueueItemPausedError(stage);
+    }
+  }
+
+  // Merge a finished item's result into its metadata, unless the lease was lost meanwhile
+  private async saveItemResult(item: QueueItemRow, result: Record<string, Json>) {
+    const { data: current } = await supabase
+      .from('queue_items')
+      .select('metadata')
+      .eq('id', item.id)
+      .single();
+
+    const { error } = await supabase
+      .from('queue_items')
+      .update({
+        metadata: {
+          ...((current?.metadata as Record<string, Json>) || {}),
+          ...result,
+          checkpoint: null
+        }
+      })
+      .eq('id', item.id)
+      .eq('worker_id', this.options.workerId);
+
+    if (error) throw error;
+  }
+
+  // Move an item this worker holds out of 'processing'. Returns false when the lease was lost
+  // and the item now belongs to another worker.
+  private async releaseItem(item: QueueItemRow, to: QueueItemStatus, fields: TablesUpdate<'queue_items'> = {}) {
+    assertTransition('processing', to);
+
+    const { data, error } = await supabase
+      .from('queue_items')
+      .update({ ...fields, status: to, worker_id: null, lease_expires_at: null })
+      .eq('id', item.id)
+      .eq('status', 'processing')
+      .eq('worker_id', this.options.workerId)
+      .select('id');
+
+    if (error) throw error;
+    return data.length > 0;
+  }
+
+  // Move every item of a job that is in one of `from` to `to`
+  private async transitionJobItems(
+    batchJobId: string,
+    from: QueueItemStatus[],
+    to: QueueItemStatus,
+    fields: TablesUpdate<'queue_items'> = {}
+  ) {
+    from.forEach(status => assertTransition(status, to));
+
+    const { error } = await supabase
+      .from('queue_items')
+      .update({ ...fields, status: to })
+      .eq('batch_job_id', batchJobId)
+      .in('status', from);
+
+    if (error) throw error;
+  }
+
+  // Exponential backoff before the given retry (1-based)
+  private getRetryDelay(retryCount: number) {
+    return this.options.retryDelay * Math.pow(2, retryCount - 1);
+  }
+
+  // Handle processing errors with retry logic. Returns the retry delay, or null if the item
+  // failed for good or is no longer held by this worker.
+  private async handleProcessingError(item: QueueItemRow, error: any): Promise<number | null> {
     const retryCount = (item.retry_count || 0) + 1;
     const maxRetries = item.max_retries || this.options.maxRetries;
 
     if (retryCount <= maxRetries) {
-      // Schedule retry with exponential backoff
-      const delay = this.options.retryDelay * Math.pow(2, retryCount - 1);
-      
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'retrying',
-          retry_count: retryCount,
-          error_message: error.message || 'Unknown error'
-        })
-        .eq('id', item.id);
+      // Workers won't claim the item again until retry_after
+      const delay = this.getRetryDelay(retryCount);
+
+      const released = await this.releaseItem(item, 'retrying', {
+        retry_count: retryCount,
+        retry_after: new Date(Date.now() + delay).toISOString(),
+        error_message: error.message || 'Unknown error'
+      });
 
-      // Retry after delay
-      setTimeout(async () => {
-        await this.processItem({ ...item, retry_count: retryCount });
-      }, delay);
+      return released ? delay : null;
 
     } else {
       // Mark as permanently failed
-      await supabase
-        .from('queue_items')
-        .update({
-          status: 'failed',
-          error_message: error.message || 'Maximum retries exceeded',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', item.id);
+      await this.releaseItem(item, 'failed', {
+        error_message: error.message || 'Maximum retries exceeded',
+        completed_at: new Date().toISOString()
+      });
+
+      return null;
     }
   }
 
-  // Pause processing for a batch job
+  // Pause processing for a batch job. Items already running finish, or stop at their next
+  // checkpoint; everything else stays pending until the job is resumed.
   async pauseBatchJob(batchJobId: string) {
-    await supabase
+    const { error } = await supabase
       .from('batch_jobs')
       .update({ status: 'paused' })
-      .eq('id', batchJobId);
+      .eq('id', batchJobId)
+      .in('status', ['pending', 'processing']);
+
+    if (error) throw error;
   }
 
-  // Resume processing for a batch job
+  // Resume processing for a batch job with its remaining items
   async resumeBatchJob(batchJobId: string) {
-    await supabase
+    const { error } = await supabase
       .from('batch_jobs')
       .update({ status: 'processing' })
-      .eq('id', batchJobId);
-    
+      .eq('id', batchJobId)
+      .eq('status', 'paused');
+
+    if (error) throw error;
+
     await this.startProcessing(batchJobId);
   }
 
@@ -230,12 +441,17 @@ export class QueueManager {
       })
       .eq('id', batchJobId);
 
-    // Cancel pending items
-    await supabase
-      .from('queue_items')
-      .update({ status: 'cancelled' })
-      .eq('batch_job_id', batchJobId)
-      .in('status', ['pending', 'retrying']);
+    // Cancel waiting items; items already processing finish
+    await this.transitionJobItems(batchJobId, ['pending', 'retrying'], 'cancelled');
+  }
+
+  // Queue a job's failed items again with a fresh retry budget
+  async retryFailedItems(batchJobId: string) {
+    await this.transitionJobItems(batchJobId, ['failed'], 'pending', {
+      retry_count: 0,
+      retry_after: null,
+      error_message: null
+    });
   }
 
   // Get queue statistics
@@ -264,37 +480,5 @@ export class QueueManager {
   }
 }
 
-// Semaphore for concurrency control
-class Semaphore {
-  private permits: number;
-  private waitQueue: Array<() => void> = [];
-
-  constructor(permits: number) {
-    this.permits = permits;
-  }
-
-  async acquire(): Promise<() => void> {
-    return new Promise((resolve) => {
-      if (this.permits > 0) {
-        this.permits--;
-        resolve(() => this.release());
-      } else {
-        this.waitQueue.push(() => {
-          this.permits--;
-          resolve(() => this.release());
-        });
-      }
-    });
-  }
-
-  private release() {
-    this.permits++;
-    if (this.waitQueue.length > 0) {
-      const next = this.waitQueue.shift();
-      next?.();
-    }
-  }
-}
-
 // Export singleton instance
 export const queueManager = new QueueManager();
\ No newline at end of file
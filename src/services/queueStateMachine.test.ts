@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import triggerSql from '../../supabase/migrations/20250921090133_2e453468-b9d8-4e0f-8db0-9b9e0d95e4db.sql?raw';
+import {
+  assertTransition,
+  canTransition,
+  InvalidQueueTransitionError,
+  QUEUE_ITEM_TRANSITIONS,
+  QueueItemStatus
+} from './queueStateMachine';
+
+const STATUSES = Object.keys(QUEUE_ITEM_TRANSITIONS) as QueueItemStatus[];
+
+// Read the allowed pairs out of the trigger's "OLD.status … AND NEW.status …" conditions
+const parseStatuses = (operand: string) => Array.from(operand.matchAll(/'(\w+)'/g), match => match[1]);
+
+const sqlTransitions = (sql: string) => {
+  const allowed = new Set<string>();
+  const condition = /OLD\.status\s+(IN\s*\([^)]*\)|=\s*'\w+')\s+AND\s+NEW\.status\s+(IN\s*\([^)]*\)|=\s*'\w+')/g;
+
+  for (const [, from, to] of sql.matchAll(condition)) {
+    for (const fromStatus of parseStatuses(from)) {
+      for (const toStatus of parseStatuses(to)) {
+        allowed.add(`${fromStatus}→${toStatus}`);
+      }
+    }
+  }
+  return allowed;
+};
+
+describe('queue item transitions', () => {
+  it.each([
+    ['pending', 'processing'],
+    ['pending', 'cancelled'],
+    ['retrying', 'processing'],
+    ['processing', 'completed'],
+    ['processing', 'pending'],
+    ['processing', 'retrying'],
+    ['processing', 'failed'],
+    ['failed', 'pending']
+  ] as const)('allows %s → %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+    expect(() => assertTransition(from, to)).not.toThrow();
+  });
+
+  it.each([
+    ['pending', 'completed'],
+    ['retrying', 'failed'],
+    ['failed', 'processing'],
+    ['completed', 'pending'],
+    ['cancelled', 'pending'],
+    ['completed', 'failed']
+  ] as const)('rejects %s → %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+    expect(() => assertTransition(from, to)).toThrow(InvalidQueueTransitionError);
+  });
+
+  it('names both statuses in the error', () => {
+    try {
+      assertTransition('completed', 'processing');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidQueueTransitionError);
+      expect(error).toMatchObject({ from: 'completed', to: 'processing' });
+      expect((error as Error).message).toBe("Queue item cannot move from 'completed' to 'processing'");
+    }
+  });
+
+  it('matches the validate_queue_item_transition trigger for every pair of statuses', () => {
+    const allowed = sqlTransitions(triggerSql);
+    expect(allowed.size).toBeGreaterThan(0);
+
+    // Every status the trigger mentions is one the client knows
+    for (const pair of allowed) {
+      for (const status of pair.split('→')) expect(STATUSES).toContain(status);
+    }
+
+    for (const from of STATUSES) {
+      for (const to of STATUSES) {
+        // The trigger lets a row be updated without changing status; that isn't a transition
+        if (from === to) continue;
+
+        const inSql = allowed.has(`${from}→${to}`);
+        expect(canTransition(from, to), `${from} → ${to}`).toBe(inSql);
+        if (inSql) {
+          expect(() => assertTransition(from, to)).not.toThrow();
+        } else {
+          expect(() => assertTransition(from, to), `${from} → ${to}`).toThrow(InvalidQueueTransitionError);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,37 @@
+export type QueueItemStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'retrying';
+
+/**
+ * Allowed status changes for queue items. The database enforces the same table with the
+ * validate_queue_item_transition trigger; keep the two in sync.
+ *
+ * - pending/retrying → processing when a worker claims the item, or cancelled with its job
+ * - processing → pending when a paused item checkpoints
+ * - processing → retrying, or failed once retries run out, when a worker's lease expires
+ * - failed → pending when the user retries failed items
+ */
+export const QUEUE_ITEM_TRANSITIONS: Record<QueueItemStatus, QueueItemStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  retrying: ['processing', 'cancelled'],
+  processing: ['completed', 'failed', 'retrying', 'cancelled', 'pending'],
+  failed: ['pending'],
+  completed: [],
+  cancelled: []
+};
+
+export class InvalidQueueTransitionError extends Error {
+  constructor(public from: QueueItemStatus, public to: QueueItemStatus) {
+    super(`Queue item cannot move from '${from}' to '${to}'`);
+    this.name = 'InvalidQueueTransitionError';
+  }
+}
+
+export function canTransition(from: QueueItemStatus, to: QueueItemStatus): boolean {
+  return QUEUE_ITEM_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: QueueItemStatus, to: QueueItemStatus) {
+  if (!canTransition(from, to)) {
+    throw new InvalidQueueTransitionError(from, to);
+  }
+}
+
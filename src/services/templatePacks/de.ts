@@ -0,0 +1,134 @@
+import { MetadataTemplate } from '../metadataTemplates';
+
+export const DE_TEMPLATES: Record<string, MetadataTemplate> = {
+  youtube: {
+    platform: 'youtube',
+    name: 'Kompletter Leitfaden',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Der komplette Leitfaden{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}🎯 In diesem Video:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+{{#if chapters}}⏱️ Kapitel:
+{{chapters}}{{/if}}
+{{else}}Willkommen auf dem Kanal von {{creator}}!
+
+In diesem Video tauchen wir tief in {{topic}} ein. Ob du gerade anfängst oder dein Wissen erweitern möchtest – in diesem Leitfaden ist für jeden etwas dabei.
+
+🎯 Das lernst du:
+• Die wichtigsten Grundlagen zu {{topic}}
+• Praktische Tipps und Strategien
+• Anwendungen aus der Praxis
+• Einblicke und Ratschläge vom Profi
+
+💡 Nicht vergessen:
+• Abonnieren für mehr Inhalte wie diesen
+• Die Glocke aktivieren
+• Einen Kommentar mit deiner Meinung hinterlassen
+• Mit Freunden teilen, denen es helfen könnte
+
+🔗 Bleib in Kontakt:
+Folge mir für weitere Inhalte und Updates!
+
+{{topic | hashtag}} #Tutorial #Anleitung
+{{/if}}
+---
+Erstellt von {{creator}}`
+  },
+  youtube_shorts: {
+    platform: 'youtube_shorts',
+    name: 'In einer Minute',
+    titleTemplate: '{{#if lead}}{{lead}} in 60 Sekunden{{else}}{{topic}} in 60 Sekunden{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Ein kurzer Blick auf {{topic}} von {{creator}}.{{/if}}
+
+Abonniere für mehr {{topic}}!`
+  },
+  instagram: {
+    platform: 'instagram',
+    name: 'Gute Laune',
+    titleTemplate: '{{#if lead}}✨ {{lead}} ✨{{else}}✨ {{topic}} Vibes ✨{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}✨ Das erwartet dich:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+Speicher dir das für später 📌 und folge mir für mehr {{topic}}!
+{{else}}Hallo ihr Lieben! 👋 Hier ist {{creator}} mit neuem Content zu {{topic}}.
+
+✨ In diesem Reel:
+• Spannende Einblicke in {{topic}}
+• Tipps, die wirklich funktionieren
+• Inhalte zum Liken und Teilen
+
+💕 Eure Unterstützung bedeutet mir alles! Nicht vergessen:
+• Doppelt tippen, wenn es dir gefallen hat ❤️
+• Für später speichern 📌
+• Mit deinem Lieblingsmenschen teilen 👯‍♀️
+• Folgen für tägliche Inspiration 🌈
+
+Lass ein 🔥 in den Kommentaren, wenn du mehr zu {{topic}} sehen willst!
+{{/if}}
+---
+Mit Liebe erstellt von {{creator}} 💝`
+  },
+  tiktok: {
+    platform: 'tiktok',
+    name: 'Schneller Trick',
+    titleTemplate: '{{#if lead}}{{lead}} erklärt 💫{{else}}Dieser {{topic}}-Trick ist ein MUSS! 🤯{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if hook}}{{hook}}
+
+Folge @{{creator | handle}} für mehr {{topic}}! 👇{{else}}Folge @{{creator | handle}} für mehr {{topic}}!
+
+🔥 Dieser {{topic}}-Tipp ist ALLES
+✨ Speicher ihn für später
+💫 Markiere jemanden, der das sehen muss
+🚀 Folge für tägliche Tipps
+
+Was hat dich am meisten überrascht? Schreib's in die Kommentare! 👇
+
+{{topic | hashtag}} #viral #tipps{{/if}}`
+  },
+  linkedin: {
+    platform: 'linkedin',
+    name: 'Fachlicher Einblick',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}Was ich über {{topic}} gelernt habe{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}Die wichtigsten Erkenntnisse:
+{{#each keyPhrases}}→ {{this | title}}
+{{/each}}{{/if}}{{else}}Ich habe mich in letzter Zeit intensiv mit {{topic}} beschäftigt, und einige Erkenntnisse sind besonders hängen geblieben.
+
+In diesem Video teile ich praktische Learnings, die du sofort anwenden kannst.
+{{/if}}
+Welche Erfahrungen hast du mit {{topic}} gemacht? Ich freue mich auf deine Gedanken in den Kommentaren.`
+  },
+  x: {
+    platform: 'x',
+    name: 'Kurzer Post',
+    titleTemplate: '{{#if lead}}{{lead}}{{else}}{{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Neues Video zu {{topic}} 🎬{{/if}}`
+  },
+  facebook: {
+    platform: 'facebook',
+    name: 'Community-Beitrag',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Alles, was du wissen musst{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+{{else}}{{creator}} ist zurück mit einem neuen Video zu {{topic}}!
+
+Schau bis zum Ende für Tipps, die du heute noch umsetzen kannst.
+{{/if}}
+👍 Like und teile das Video, wenn es dir geholfen hat, und schreib uns in die Kommentare, was du als Nächstes sehen möchtest!`
+  },
+  pinterest: {
+    platform: 'pinterest',
+    name: 'Ideen-Pin',
+    titleTemplate: '{{#if lead}}{{lead}} | {{topic}}{{else}}{{topic}}: Ideen & Tipps{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Einfache Ideen und Tipps zu {{topic}} von {{creator}}.{{/if}}
+Merk dir diesen Pin für später!`
+  }
+};
@@ -0,0 +1,134 @@
+import { MetadataTemplate } from '../metadataTemplates';
+
+export const ES_TEMPLATES: Record<string, MetadataTemplate> = {
+  youtube: {
+    platform: 'youtube',
+    name: 'Guía completa',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Guía completa{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}🎯 En este video:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+{{#if chapters}}⏱️ Capítulos:
+{{chapters}}{{/if}}
+{{else}}¡Bienvenido al canal de {{creator}}!
+
+En este video profundizamos en {{topic}}. Tanto si estás empezando como si quieres ampliar tus conocimientos, esta guía completa tiene algo para ti.
+
+🎯 Lo que aprenderás:
+• Conceptos clave sobre {{topic}}
+• Consejos y estrategias prácticas
+• Aplicaciones en el mundo real
+• Ideas y recomendaciones de experto
+
+💡 No olvides:
+• Suscribirte para ver más contenido como este
+• Activar la campanita
+• Dejar un comentario con tu opinión
+• Compartirlo con quien le pueda servir
+
+🔗 Sígueme:
+¡Sígueme para más contenido y novedades!
+
+{{topic | hashtag}} #Tutorial #Guía
+{{/if}}
+---
+Creado por {{creator}}`
+  },
+  youtube_shorts: {
+    platform: 'youtube_shorts',
+    name: 'En un minuto',
+    titleTemplate: '{{#if lead}}{{lead}} en 60 segundos{{else}}{{topic}} en 60 segundos{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Un vistazo rápido a {{topic}} de la mano de {{creator}}.{{/if}}
+
+¡Suscríbete para más {{topic}}!`
+  },
+  instagram: {
+    platform: 'instagram',
+    name: 'Buena vibra',
+    titleTemplate: '{{#if lead}}✨ {{lead}} ✨{{else}}✨ {{topic}} con buena vibra ✨{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}✨ Lo que encontrarás:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+¡Guárdalo para después 📌 y sígueme para más contenido de {{topic}}!
+{{else}}¡Hola a todos! 👋 Soy {{creator}} y hoy traigo contenido nuevo sobre {{topic}}.
+
+✨ En este reel:
+• Ideas increíbles sobre {{topic}}
+• Consejos que funcionan de verdad
+• Contenido para disfrutar y compartir
+
+💕 ¡Tu apoyo lo es todo! No olvides:
+• Dar doble toque si te gustó ❤️
+• Guardarlo para después 📌
+• Compartirlo con tu mejor amigo 👯‍♀️
+• Seguirme para inspiración diaria 🌈
+
+¡Deja un 🔥 en los comentarios si quieres más contenido de {{topic}}!
+{{/if}}
+---
+Creado con cariño por {{creator}} 💝`
+  },
+  tiktok: {
+    platform: 'tiktok',
+    name: 'Truco rápido',
+    titleTemplate: '{{#if lead}}{{lead}} explicado 💫{{else}}¡El truco de {{topic}} que NECESITAS conocer! 🤯{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if hook}}{{hook}}
+
+¡Sigue a @{{creator | handle}} para más contenido de {{topic}}! 👇{{else}}¡Sigue a @{{creator | handle}} para más contenido de {{topic}}!
+
+🔥 Este consejo de {{topic}} lo es TODO
+✨ Guárdalo para después
+💫 Etiqueta a alguien que necesite verlo
+🚀 Sígueme para consejos diarios
+
+¿Qué parte te sorprendió más? ¡Cuéntamelo! 👇
+
+{{topic | hashtag}} #viral #consejos{{/if}}`
+  },
+  linkedin: {
+    platform: 'linkedin',
+    name: 'Visión profesional',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}Lo que aprendí sobre {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}Ideas clave:
+{{#each keyPhrases}}→ {{this | title}}
+{{/each}}{{/if}}{{else}}Últimamente he dedicado tiempo a {{topic}} y hay algunas lecciones que destacan.
+
+En este video comparto aprendizajes prácticos que puedes aplicar de inmediato.
+{{/if}}
+¿Cuál es tu experiencia con {{topic}}? Me encantaría leer tu opinión en los comentarios.`
+  },
+  x: {
+    platform: 'x',
+    name: 'Publicación corta',
+    titleTemplate: '{{#if lead}}{{lead}}{{else}}{{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Nuevo video sobre {{topic}} 🎬{{/if}}`
+  },
+  facebook: {
+    platform: 'facebook',
+    name: 'Publicación para la comunidad',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Todo lo que necesitas saber{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+{{else}}¡{{creator}} por aquí con un nuevo video sobre {{topic}}!
+
+Míralo hasta el final para llevarte consejos que puedes usar hoy mismo.
+{{/if}}
+👍 Dale me gusta y compártelo si te resultó útil, y cuéntanos en los comentarios qué quieres ver después.`
+  },
+  pinterest: {
+    platform: 'pinterest',
+    name: 'Pin de ideas',
+    titleTemplate: '{{#if lead}}{{lead}} | {{topic}}{{else}}Ideas y consejos de {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Ideas y consejos fáciles de {{topic}} por {{creator}}.{{/if}}
+¡Guarda este pin para después!`
+  }
+};
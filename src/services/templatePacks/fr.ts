@@ -0,0 +1,134 @@
+import { MetadataTemplate } from '../metadataTemplates';
+
+export const FR_TEMPLATES: Record<string, MetadataTemplate> = {
+  youtube: {
+    platform: 'youtube',
+    name: 'Guide complet',
+    titleTemplate: '{{#if lead}}{{topic}} : {{lead}}{{else}}{{topic}} - Le guide complet{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}🎯 Dans cette vidéo :
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+{{#if chapters}}⏱️ Chapitres :
+{{chapters}}{{/if}}
+{{else}}Bienvenue sur la chaîne de {{creator}} !
+
+Dans cette vidéo, on plonge au cœur de {{topic}}. Que vous débutiez ou que vous souhaitiez approfondir vos connaissances, ce guide complet est fait pour vous.
+
+🎯 Ce que vous allez apprendre :
+• Les notions clés de {{topic}}
+• Des conseils et stratégies pratiques
+• Des applications concrètes
+• Des astuces d'expert
+
+💡 N'oubliez pas de :
+• Vous abonner pour plus de contenus comme celui-ci
+• Activer la cloche
+• Laisser un commentaire pour donner votre avis
+• Partager avec vos amis que ça pourrait aider
+
+🔗 Restons en contact :
+Abonnez-vous pour ne rien manquer !
+
+{{topic | hashtag}} #Tutoriel #Guide
+{{/if}}
+---
+Créé par {{creator}}`
+  },
+  youtube_shorts: {
+    platform: 'youtube_shorts',
+    name: 'En une minute',
+    titleTemplate: '{{#if lead}}{{lead}} en 60 secondes{{else}}{{topic}} en 60 secondes{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Un aperçu rapide de {{topic}} par {{creator}}.{{/if}}
+
+Abonnez-vous pour plus de {{topic}} !`
+  },
+  instagram: {
+    platform: 'instagram',
+    name: 'Bonnes ondes',
+    titleTemplate: '{{#if lead}}✨ {{lead}} ✨{{else}}✨ Ambiance {{topic}} ✨{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}✨ Au programme :
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+Enregistrez ce post 📌 et abonnez-vous pour plus de contenu sur {{topic}} !
+{{else}}Coucou tout le monde ! 👋 C'est {{creator}} avec du nouveau contenu sur {{topic}}.
+
+✨ Dans ce reel :
+• Des idées géniales sur {{topic}}
+• Des astuces qui marchent vraiment
+• Du contenu à aimer et à partager
+
+💕 Votre soutien compte énormément ! N'oubliez pas de :
+• Liker si ça vous a plu ❤️
+• Enregistrer pour plus tard 📌
+• Partager avec votre meilleur(e) ami(e) 👯‍♀️
+• Vous abonner pour de l'inspiration au quotidien 🌈
+
+Mettez un 🔥 en commentaire si vous voulez plus de contenu sur {{topic}} !
+{{/if}}
+---
+Créé avec amour par {{creator}} 💝`
+  },
+  tiktok: {
+    platform: 'tiktok',
+    name: 'Astuce rapide',
+    titleTemplate: '{{#if lead}}{{lead}} expliqué 💫{{else}}L\'astuce {{topic}} à connaître ABSOLUMENT ! 🤯{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if hook}}{{hook}}
+
+Suivez @{{creator | handle}} pour plus de contenu sur {{topic}} ! 👇{{else}}Suivez @{{creator | handle}} pour plus de contenu sur {{topic}} !
+
+🔥 Cette astuce {{topic}} change TOUT
+✨ Enregistrez-la pour plus tard
+💫 Identifiez quelqu'un qui doit la voir
+🚀 Abonnez-vous pour des astuces chaque jour
+
+Qu'est-ce qui vous a le plus surpris ? Dites-le-moi ! 👇
+
+{{topic | hashtag}} #viral #astuces{{/if}}`
+  },
+  linkedin: {
+    platform: 'linkedin',
+    name: 'Regard professionnel',
+    titleTemplate: '{{#if lead}}{{topic}} : {{lead}}{{else}}Ce que j\'ai appris sur {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}Points clés :
+{{#each keyPhrases}}→ {{this | title}}
+{{/each}}{{/if}}{{else}}Je me suis beaucoup intéressé(e) à {{topic}} ces derniers temps, et quelques leçons se démarquent.
+
+Dans cette vidéo, je partage des enseignements concrets à appliquer dès maintenant.
+{{/if}}
+Et vous, quelle est votre expérience avec {{topic}} ? Partagez votre avis en commentaire.`
+  },
+  x: {
+    platform: 'x',
+    name: 'Post court',
+    titleTemplate: '{{#if lead}}{{lead}}{{else}}{{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Nouvelle vidéo sur {{topic}} 🎬{{/if}}`
+  },
+  facebook: {
+    platform: 'facebook',
+    name: 'Post communauté',
+    titleTemplate: '{{#if lead}}{{topic}} : {{lead}}{{else}}{{topic}} - Tout ce qu\'il faut savoir{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+{{else}}{{creator}} est de retour avec une nouvelle vidéo sur {{topic}} !
+
+Regardez jusqu'au bout pour des conseils à utiliser dès aujourd'hui.
+{{/if}}
+👍 Likez et partagez si c'était utile, et dites-nous en commentaire ce que vous aimeriez voir ensuite !`
+  },
+  pinterest: {
+    platform: 'pinterest',
+    name: 'Épingle idées',
+    titleTemplate: '{{#if lead}}{{lead}} | {{topic}}{{else}}Idées et astuces {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Des idées et astuces faciles sur {{topic}} par {{creator}}.{{/if}}
+Enregistrez cette épingle pour plus tard !`
+  }
+};
@@ -0,0 +1,134 @@
+import { MetadataTemplate } from '../metadataTemplates';
+
+export const IT_TEMPLATES: Record<string, MetadataTemplate> = {
+  youtube: {
+    platform: 'youtube',
+    name: 'Guida completa',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Guida completa{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}🎯 In questo video:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+{{#if chapters}}⏱️ Capitoli:
+{{chapters}}{{/if}}
+{{else}}Benvenuto sul canale di {{creator}}!
+
+In questo video approfondiamo {{topic}}. Che tu sia alle prime armi o voglia ampliare le tue conoscenze, questa guida completa ha qualcosa per tutti.
+
+🎯 Cosa imparerai:
+• I concetti chiave di {{topic}}
+• Consigli e strategie pratiche
+• Applicazioni nel mondo reale
+• Spunti e suggerimenti da esperto
+
+💡 Non dimenticare di:
+• Iscriverti per altri contenuti come questo
+• Attivare la campanella
+• Lasciare un commento con la tua opinione
+• Condividerlo con gli amici a cui potrebbe servire
+
+🔗 Restiamo in contatto:
+Seguimi per altri contenuti e novità!
+
+{{topic | hashtag}} #Tutorial #Guida
+{{/if}}
+---
+Creato da {{creator}}`
+  },
+  youtube_shorts: {
+    platform: 'youtube_shorts',
+    name: 'In un minuto',
+    titleTemplate: '{{#if lead}}{{lead}} in 60 secondi{{else}}{{topic}} in 60 secondi{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Uno sguardo veloce a {{topic}} con {{creator}}.{{/if}}
+
+Iscriviti per altri contenuti su {{topic}}!`
+  },
+  instagram: {
+    platform: 'instagram',
+    name: 'Buone vibrazioni',
+    titleTemplate: '{{#if lead}}✨ {{lead}} ✨{{else}}✨ {{topic}} vibes ✨{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}✨ Cosa trovi:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+Salvalo per dopo 📌 e seguimi per altri contenuti su {{topic}}!
+{{else}}Ciao a tutti! 👋 Sono {{creator}} con nuovi contenuti su {{topic}}.
+
+✨ In questo reel:
+• Spunti fantastici su {{topic}}
+• Consigli che funzionano davvero
+• Contenuti da amare e condividere
+
+💕 Il vostro supporto è tutto! Non dimenticate di:
+• Mettere un doppio tap se vi è piaciuto ❤️
+• Salvarlo per dopo 📌
+• Condividerlo con il vostro migliore amico 👯‍♀️
+• Seguirmi per ispirazione quotidiana 🌈
+
+Lasciate un 🔥 nei commenti se volete altri contenuti su {{topic}}!
+{{/if}}
+---
+Creato con amore da {{creator}} 💝`
+  },
+  tiktok: {
+    platform: 'tiktok',
+    name: 'Trucco veloce',
+    titleTemplate: '{{#if lead}}{{lead}} spiegato 💫{{else}}Il trucco di {{topic}} che DEVI conoscere! 🤯{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if hook}}{{hook}}
+
+Segui @{{creator | handle}} per altri contenuti su {{topic}}! 👇{{else}}Segui @{{creator | handle}} per altri contenuti su {{topic}}!
+
+🔥 Questo consiglio su {{topic}} è TUTTO
+✨ Salvalo per dopo
+💫 Tagga qualcuno che deve vederlo
+🚀 Seguimi per consigli ogni giorno
+
+Cosa ti ha sorpreso di più? Fammelo sapere! 👇
+
+{{topic | hashtag}} #virale #consigli{{/if}}`
+  },
+  linkedin: {
+    platform: 'linkedin',
+    name: 'Punto di vista professionale',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}Cosa ho imparato su {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}Punti chiave:
+{{#each keyPhrases}}→ {{this | title}}
+{{/each}}{{/if}}{{else}}Ultimamente ho dedicato molto tempo a {{topic}} e alcune lezioni sono emerse con chiarezza.
+
+In questo video condivido spunti pratici da applicare subito.
+{{/if}}
+Qual è la tua esperienza con {{topic}}? Mi piacerebbe leggere la tua opinione nei commenti.`
+  },
+  x: {
+    platform: 'x',
+    name: 'Post breve',
+    titleTemplate: '{{#if lead}}{{lead}}{{else}}{{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Nuovo video su {{topic}} 🎬{{/if}}`
+  },
+  facebook: {
+    platform: 'facebook',
+    name: 'Post per la community',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Tutto quello che devi sapere{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+{{else}}{{creator}} è tornato con un nuovo video su {{topic}}!
+
+Guardalo fino alla fine per consigli da usare già oggi.
+{{/if}}
+👍 Metti mi piace e condividi se ti è stato utile, e scrivici nei commenti cosa vorresti vedere la prossima volta!`
+  },
+  pinterest: {
+    platform: 'pinterest',
+    name: 'Pin di idee',
+    titleTemplate: '{{#if lead}}{{lead}} | {{topic}}{{else}}Idee e consigli su {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Idee e consigli semplici su {{topic}} da {{creator}}.{{/if}}
+Salva questo pin per dopo!`
+  }
+};
@@ -0,0 +1,134 @@
+import { MetadataTemplate } from '../metadataTemplates';
+
+export const PT_TEMPLATES: Record<string, MetadataTemplate> = {
+  youtube: {
+    platform: 'youtube',
+    name: 'Guia completo',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Guia completo{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}🎯 Neste vídeo:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+{{#if chapters}}⏱️ Capítulos:
+{{chapters}}{{/if}}
+{{else}}Bem-vindo ao canal de {{creator}}!
+
+Neste vídeo, mergulhamos fundo em {{topic}}. Seja você iniciante ou alguém que quer ampliar seus conhecimentos, este guia completo tem algo para todos.
+
+🎯 O que você vai aprender:
+• Conceitos-chave sobre {{topic}}
+• Dicas e estratégias práticas
+• Aplicações no mundo real
+• Insights e conselhos de especialista
+
+💡 Não se esqueça de:
+• Se inscrever para mais conteúdos como este
+• Ativar o sininho
+• Deixar um comentário com a sua opinião
+• Compartilhar com amigos que possam gostar
+
+🔗 Vamos nos conectar:
+Siga para mais conteúdos e novidades!
+
+{{topic | hashtag}} #Tutorial #Guia
+{{/if}}
+---
+Criado por {{creator}}`
+  },
+  youtube_shorts: {
+    platform: 'youtube_shorts',
+    name: 'Em um minuto',
+    titleTemplate: '{{#if lead}}{{lead}} em 60 segundos{{else}}{{topic}} em 60 segundos{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Um olhar rápido sobre {{topic}} com {{creator}}.{{/if}}
+
+Inscreva-se para mais {{topic}}!`
+  },
+  instagram: {
+    platform: 'instagram',
+    name: 'Boas vibrações',
+    titleTemplate: '{{#if lead}}✨ {{lead}} ✨{{else}}✨ Vibes de {{topic}} ✨{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}✨ O que você vai encontrar:
+{{#each keyPhrases}}• {{this | title}}
+{{/each}}{{/if}}
+Salve para depois 📌 e siga para mais conteúdo sobre {{topic}}!
+{{else}}Oi, gente linda! 👋 Aqui é {{creator}} com conteúdo novo sobre {{topic}}.
+
+✨ Neste reel:
+• Ideias incríveis sobre {{topic}}
+• Dicas que funcionam de verdade
+• Conteúdo para amar e compartilhar
+
+💕 O apoio de vocês é tudo! Não se esqueçam de:
+• Dar dois toques se gostou ❤️
+• Salvar para depois 📌
+• Compartilhar com seu melhor amigo 👯‍♀️
+• Seguir para inspiração diária 🌈
+
+Deixe um 🔥 nos comentários se quiser mais conteúdo sobre {{topic}}!
+{{/if}}
+---
+Criado com carinho por {{creator}} 💝`
+  },
+  tiktok: {
+    platform: 'tiktok',
+    name: 'Dica rápida',
+    titleTemplate: '{{#if lead}}{{lead}} explicado 💫{{else}}A dica de {{topic}} que você PRECISA saber! 🤯{{/if}}',
+    descriptionTemplate: `{{title}}
+
+{{#if hook}}{{hook}}
+
+Siga @{{creator | handle}} para mais conteúdo sobre {{topic}}! 👇{{else}}Siga @{{creator | handle}} para mais conteúdo sobre {{topic}}!
+
+🔥 Essa dica de {{topic}} é TUDO
+✨ Salve para depois
+💫 Marque alguém que precisa ver isso
+🚀 Siga para dicas diárias
+
+Qual parte mais te surpreendeu? Conta pra mim! 👇
+
+{{topic | hashtag}} #viral #dicas{{/if}}`
+  },
+  linkedin: {
+    platform: 'linkedin',
+    name: 'Visão profissional',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}O que aprendi sobre {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+
+{{#if keyPhrases}}Principais aprendizados:
+{{#each keyPhrases}}→ {{this | title}}
+{{/each}}{{/if}}{{else}}Tenho me dedicado a {{topic}} ultimamente, e algumas lições se destacaram.
+
+Neste vídeo compartilho aprendizados práticos que você pode aplicar imediatamente.
+{{/if}}
+Qual é a sua experiência com {{topic}}? Adoraria ler sua opinião nos comentários.`
+  },
+  x: {
+    platform: 'x',
+    name: 'Post curto',
+    titleTemplate: '{{#if lead}}{{lead}}{{else}}{{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Novo vídeo sobre {{topic}} 🎬{{/if}}`
+  },
+  facebook: {
+    platform: 'facebook',
+    name: 'Post para a comunidade',
+    titleTemplate: '{{#if lead}}{{topic}}: {{lead}}{{else}}{{topic}} - Tudo o que você precisa saber{{/if}}',
+    descriptionTemplate: `{{#if summary}}{{summary}}
+{{else}}{{creator}} está de volta com um novo vídeo sobre {{topic}}!
+
+Assista até o final para dicas que você pode usar hoje mesmo.
+{{/if}}
+👍 Curta e compartilhe se foi útil, e conte nos comentários o que você quer ver a seguir!`
+  },
+  pinterest: {
+    platform: 'pinterest',
+    name: 'Pin de ideias',
+    titleTemplate: '{{#if lead}}{{lead}} | {{topic}}{{else}}Ideias e dicas de {{topic}}{{/if}}',
+    descriptionTemplate: `{{#if hook}}{{hook}}{{else}}Ideias e dicas fáceis de {{topic}} por {{creator}}.{{/if}}
+Salve este pin para depois!`
+  }
+};
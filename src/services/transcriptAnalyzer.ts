@@ -0,0 +1,256 @@
+import { TranscriptionResult, TranscriptionSegment } from './transcriptionService';
+import {
+  contentWords,
+  cosineSimilarity,
+  computeTfIdf,
+  extractKeyPhrases,
+  getStopwords,
+  splitSentences,
+  toTitleCase,
+  topTerms
+} from '@/utils/textAnalysis';
+
+export interface TranscriptChapter {
+  start: number;
+  end: number;
+  title: string;
+}
+
+export interface TranscriptInsights {
+  keyPhrases: string[];
+  topics: string[];
+  summary: string;
+  chapters: TranscriptChapter[];
+  duration: number;
+}
+
+export interface AnalysisOptions {
+  language?: string;             // picks the stopword list; defaults to the transcript's language
+  maxKeyPhrases?: number;
+  maxTopics?: number;
+  summarySentences?: number;
+  minChapterLength?: number;     // seconds
+  targetChapterLength?: number;  // seconds
+  minChapters?: number;
+  maxChapters?: number;
+}
+
+interface TextBlock {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<AnalysisOptions, 'language'>> = {
+  maxKeyPhrases: 8,
+  maxTopics: 5,
+  summarySentences: 3,
+  minChapterLength: 30,
+  targetChapterLength: 120,
+  minChapters: 1,
+  maxChapters: 10
+};
+
+// Chapters are built from blocks of roughly this length before boundaries are chosen
+const BLOCK_LENGTH = 20;
+
+/**
+ * Extracts key phrases, topics, a summary and chapters from a transcription.
+ * Everything here is deterministic: the same transcript always gives the same insights.
+ */
+export class TranscriptAnalyzer {
+  public analyze(transcript: TranscriptionResult, options: AnalysisOptions = {}): TranscriptInsights {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const text = transcript.text.trim() || transcript.segments.map(s => s.text.trim()).join(' ');
+    const duration = transcript.segments.reduce((max, segment) => Math.max(max, segment.end), 0);
+    const stopwords = getStopwords(settings.language || transcript.language);
+
+    const keyPhrases = extractKeyPhrases(text, { maxPhrases: settings.maxKeyPhrases, stopwords }).map(k => k.phrase);
+    const topics = this.extractTopics(transcript.segments, text, settings.maxTopics, stopwords);
+
+    return {
+      keyPhrases,
+      topics,
+      summary: this.summarize(text, keyPhrases, settings.summarySentences, stopwords),
+      chapters: this.buildChapters(transcript.segments, duration, settings, stopwords),
+      duration
+    };
+  }
+
+  // Topics are the words that carry the most weight across the whole video
+  private extractTopics(segments: TranscriptionSegment[], text: string, limit: number, stopwords: Set<string>): string[] {
+    const blocks = this.buildBlocks(segments);
+    const documents = blocks.length > 1 ? blocks.map(block => block.text) : [text];
+    const weights = computeTfIdf(documents, stopwords);
+
+    const totals = new Map<string, number>();
+    for (const documentWeights of weights) {
+      for (const [term, weight] of documentWeights) {
+        totals.set(term, (totals.get(term) || 0) + weight);
+      }
+    }
+
+    return topTerms(totals, limit);
+  }
+
+  /**
+   * Frequency-based extractive summary: score sentences by the content words they contain,
+   * favour those mentioning key phrases, then keep the best distinct ones in their original order.
+   */
+  private summarize(text: string, keyPhrases: string[], maxSentences: number, stopwords: Set<string>): string {
+    const sentences = splitSentences(text);
+    if (sentences.length <= maxSentences) return sentences.join(' ');
+
+    const frequency = new Map<string, number>();
+    for (const word of contentWords(text, stopwords)) {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+    }
+    const maxFrequency = Math.max(1, ...frequency.values());
+
+    const scored = sentences.map((sentence, index) => {
+      const words = contentWords(sentence, stopwords);
+      if (words.length < 3) return { index, score: 0 };
+
+      const lower = sentence.toLowerCase();
+      const phraseBonus = keyPhrases.filter(phrase => lower.includes(phrase)).length * 0.5;
+      const wordScore = words.reduce((sum, word) => sum + (frequency.get(word) || 0) / maxFrequency, 0);
+
+      return { index, score: wordScore / Math.sqrt(words.length) + phraseBonus };
+    });
+
+    // Skip sentences that mostly repeat one already chosen; speech often restates itself
+    const selected: { index: number; words: Set<string> }[] = [];
+    for (const { index, score } of scored.sort((a, b) => b.score - a.score || a.index - b.index)) {
+      if (selected.length >= maxSentences || score === 0) break;
+
+      const words = new Set(contentWords(sentences[index], stopwords));
+      const redundant = selected.some(other => {
+        const shared = Array.from(words).filter(word => other.words.has(word)).length;
+        return shared / Math.min(words.size, other.words.size) > 0.6;
+      });
+      if (!redundant) selected.push({ index, words });
+    }
+
+    return selected
+      .sort((a, b) => a.index - b.index)
+      .map(({ index }) => sentences[index])
+      .join(' ');
+  }
+
+  private buildBlocks(segments: TranscriptionSegment[]): TextBlock[] {
+    const blocks: TextBlock[] = [];
+    let current: TextBlock | null = null;
+
+    for (const segment of segments) {
+      if (!current) {
+        current = { start: segment.start, end: segment.end, text: segment.text.trim() };
+      } else {
+        current.end = segment.end;
+        current.text = `${current.text} ${segment.text.trim()}`;
+      }
+
+      if (current.end - current.start >= BLOCK_LENGTH) {
+        blocks.push(current);
+        current = null;
+      }
+    }
+    if (current) blocks.push(current);
+
+    return blocks;
+  }
+
+  /**
+   * Split the video where the vocabulary shifts most between neighbouring blocks
+   * (a simplified TextTiling), keeping every chapter at least minChapterLength long.
+   * targetChapterLength caps how many chapters are made, not how many must be found.
+   * If that can't produce minChapters, boundaries are spread evenly over segment starts instead.
+   * Returns no chapters when the video is too short for minChapters.
+   */
+  private buildChapters(
+    segments: TranscriptionSegment[],
+    duration: number,
+    settings: Required<Omit<AnalysisOptions, 'language'>>,
+    stopwords: Set<string>
+  ): TranscriptChapter[] {
+    const blocks = this.buildBlocks(segments);
+    if (blocks.length === 0 || duration < settings.minChapters * settings.minChapterLength) return [];
+
+    const desired = Math.max(
+      settings.minChapters,
+      Math.min(settings.maxChapters, Math.round(duration / settings.targetChapterLength))
+    );
+    const vectors = computeTfIdf(blocks.map(block => block.text), stopwords);
+
+    const gaps = blocks.slice(1).map((block, i) => ({
+      time: block.start,
+      similarity: cosineSimilarity(vectors[i], vectors[i + 1])
+    }));
+
+    // Only real vocabulary shifts count: gaps well below the typical neighbour similarity
+    const mean = gaps.reduce((sum, gap) => sum + gap.similarity, 0) / Math.max(gaps.length, 1);
+    const deviation = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap.similarity - mean) ** 2, 0) / Math.max(gaps.length, 1));
+    const threshold = mean - deviation / 2;
+
+    const boundaries: number[] = [];
+    const fits = (time: number) =>
+      [0, ...boundaries, duration].every(point => Math.abs(point - time) >= settings.minChapterLength);
+
+    for (const gap of [...gaps].sort((a, b) => a.similarity - b.similarity || a.time - b.time)) {
+      if (boundaries.length >= desired - 1 || gap.similarity >= threshold) break;
+      if (fits(gap.time)) boundaries.push(gap.time);
+    }
+
+    if (boundaries.length < settings.minChapters - 1) {
+      boundaries.length = 0;
+      for (let k = 1; k < settings.minChapters; k++) {
+        const target = (duration * k) / settings.minChapters;
+        const nearest = segments
+          .map(segment => segment.start)
+          .filter(fits)
+          .sort((a, b) => Math.abs(a - target) - Math.abs(b - target) || a - b)[0];
+        if (nearest !== undefined) boundaries.push(nearest);
+      }
+      if (boundaries.length < settings.minChapters - 1) return [];
+    }
+
+    const starts = [0, ...boundaries.sort((a, b) => a - b)];
+    const chapters = starts.map((start, i) => {
+      const end = starts[i + 1] ?? duration;
+      return {
+        start,
+        end,
+        text: segments
+          .filter(segment => segment.start >= start && (segment.start < end || i === starts.length - 1))
+          .map(segment => segment.text.trim())
+          .join(' ')
+      };
+    });
+
+    return this.titleChapters(chapters, stopwords);
+  }
+
+  // Title each chapter with its most distinctive key phrase, avoiding repeats
+  private titleChapters(chapters: TextBlock[], stopwords: Set<string>): TranscriptChapter[] {
+    const weights = computeTfIdf(chapters.map(chapter => chapter.text), stopwords);
+    const used = new Set<string>();
+
+    return chapters.map((chapter, i) => {
+      const distinctive = topTerms(weights[i], 5);
+      const candidates = extractKeyPhrases(chapter.text, { maxPhrases: 10, stopwords })
+        .map(k => ({
+          phrase: k.phrase,
+          score: k.score + k.phrase.split(' ').filter(word => distinctive.includes(word)).length * 2
+        }))
+        .sort((a, b) => b.score - a.score || a.phrase.localeCompare(b.phrase))
+        .map(k => k.phrase);
+
+      const title = [...candidates, ...distinctive].find(phrase => !used.has(phrase))
+        || (i === 0 ? 'Introduction' : `Part ${i + 1}`);
+      used.add(title);
+
+      return { start: chapter.start, end: chapter.end, title: toTitleCase(title) };
+    });
+  }
+}
+
+export const transcriptAnalyzer = new TranscriptAnalyzer();
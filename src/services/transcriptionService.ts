@@ -1,15 +1,52 @@
-import { pipeline } from '@huggingface/transformers';
+import { WHISPER_SAMPLE_RATE, WhisperModelOptions } from './whisperModels';
+import { createAbortError, isAbortError, throwIfAborted } from '@/utils/abort';
+import type { TranscriptionWorkerRequest, TranscriptionWorkerResponse } from '@/workers/transcriptionProtocol';
+
+export * from './whisperModels';
+
+export interface TranscriptionWord {
+  // Includes the tokenizer's leading whitespace, which is absent in languages such as Chinese or
+  // Japanese, so joining words with joinWords restores the original spacing
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
 
 export interface TranscriptionSegment {
   text: string;
   start: number;
   end: number;
+  words?: TranscriptionWord[];
 }
 
 export interface TranscriptionResult {
   text: string;
   segments: TranscriptionSegment[];
   language?: string;
+  detectedLanguage?: string; // language Whisper heard in the opening audio
+  languageConfidence?: number; // probability of detectedLanguage, 0-1
+  model?: string;
+}
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number;
+}
+
+export interface TranscribeAudioOptions {
+  language?: string;
+  chunkDuration?: number;
+  returnSegments?: boolean;
+  wordTimestamps?: boolean;
+  model?: WhisperModelOptions;
+}
+
+// Options that stay on the main thread: cancellation and callbacks
+export interface TranscribeRequestOptions extends TranscribeAudioOptions {
+  signal?: AbortSignal;
+  onPartial?: (segments: TranscriptionSegment[]) => void;
+  onProgress?: (progress: TranscriptionProgress) => void; // overrides the service-wide callback for this request
 }
 
 export interface TranscriptionProgress {
@@ -18,175 +55,187 @@ export interface TranscriptionProgress {
   message: string;
 }
 
+interface PendingTranscription {
+  resolve: (result: TranscriptionResult) => void;
+  reject: (error: Error) => void;
+  onPartial?: (segments: TranscriptionSegment[]) => void;
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+/**
+ * Main-thread entry point for transcription. Whisper itself runs in a dedicated worker
+ * (see workers/transcription.worker.ts) so long transcriptions don't freeze the page.
+ */
 export class TranscriptionService {
-  private transcriber: any = null;
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingTranscription>();
   private onProgress?: (progress: TranscriptionProgress) => void;
 
   constructor(onProgress?: (progress: TranscriptionProgress) => void) {
     this.onProgress = onProgress;
   }
 
-  private updateProgress(stage: TranscriptionProgress['stage'], progress: number, message: string) {
-    this.onProgress?.({ stage, progress, message });
+  private updateProgress(
+    stage: TranscriptionProgress['stage'],
+    progress: number,
+    message: string,
+    onProgress = this.onProgress
+  ) {
+    onProgress?.({ stage, progress, message });
   }
 
-  async initializeTranscriber(language: string = 'en') {
-    if (this.transcriber) return this.transcriber;
-
-    this.updateProgress('loading', 0, 'Loading Whisper model...');
+  // Started on first use; the worker keeps its model loaded between transcriptions
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/transcription.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<TranscriptionWorkerResponse>) => {
+        this.handleWorkerMessage(event.data);
+      };
+      this.worker.onerror = (event) => {
+        console.error('Transcription worker error:', event);
+        this.terminateWorker(new Error(`Transcription failed: ${event.message || 'the transcription worker crashed'}`));
+      };
+    }
+    return this.worker;
+  }
 
-    // Use smaller model for faster loading
-    const modelName = language === 'multilingual' 
-      ? 'onnx-community/whisper-base' 
-      : 'onnx-community/whisper-base.en';
+  private handleWorkerMessage(message: TranscriptionWorkerResponse) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
 
-    try {
-      // Try WebGPU first
-      this.updateProgress('loading', 10, 'Attempting WebGPU acceleration...');
-      
-      this.transcriber = await this.tryLoadModel(modelName, 'webgpu');
-      this.updateProgress('loading', 100, 'Model loaded with WebGPU acceleration');
-      return this.transcriber;
-      
-    } catch (webgpuError) {
-      console.warn('WebGPU failed, falling back to CPU:', webgpuError);
-      
-      try {
-        this.updateProgress('loading', 30, 'WebGPU unavailable, using CPU...');
-        
-        this.transcriber = await this.tryLoadModel(modelName, 'cpu');
-        this.updateProgress('loading', 100, 'Model loaded with CPU');
-        return this.transcriber;
-        
-      } catch (cpuError) {
-        console.error('Both WebGPU and CPU failed:', cpuError);
-        throw new Error('Failed to load Whisper model. Please check your internet connection and try again.');
-      }
+    switch (message.type) {
+      case 'progress':
+        (request.onProgress || this.onProgress)?.(message.progress);
+        break;
+      case 'partial':
+        request.onPartial?.(message.segments);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        request.resolve(message.result);
+        break;
+      case 'cancelled':
+        this.pending.delete(message.id);
+        request.reject(createAbortError());
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        request.reject(new Error(message.message));
+        break;
     }
   }
 
-  private async tryLoadModel(modelName: string, device: 'webgpu' | 'cpu') {
-    return await pipeline(
-      'automatic-speech-recognition',
-      modelName,
-      {
-        device,
-        progress_callback: (progress: any) => {
-          if (progress.status === 'progress') {
-            const baseProgress = device === 'webgpu' ? 10 : 30;
-            const progressRange = device === 'webgpu' ? 70 : 60;
-            const currentProgress = baseProgress + (progress.progress * progressRange);
-            this.updateProgress('loading', currentProgress, `Loading model (${device.toUpperCase()})...`);
-          }
-        }
-      }
-    ) as any;
+  private terminateWorker(reason: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const request of this.pending.values()) {
+      request.reject(reason);
+    }
+    this.pending.clear();
   }
 
+  // Accepts an audio file, or mono samples at WHISPER_SAMPLE_RATE which are transferred to the
+  // worker and can't be used by the caller afterwards
   async transcribeAudio(
-    audioBlob: Blob, 
-    options: {
-      language?: string;
-      chunkDuration?: number;
-      returnSegments?: boolean;
-    } = {}
+    input: Blob | Float32Array,
+    options: TranscribeRequestOptions = {}
   ): Promise<TranscriptionResult> {
-    const { 
-      language = 'en', 
-      chunkDuration = 30, // seconds
-      returnSegments = true 
-    } = options;
+    // Callbacks and the signal stay on this side; only cloneable options are posted to the worker
+    const { signal, onPartial, onProgress, ...workerOptions } = options;
 
-    this.updateProgress('loading', 0, 'Initializing transcription...');
-
-    try {
-      const transcriber = await this.initializeTranscriber(language);
-      
-      // Convert blob to URL for the transcriber
-      const audioUrl = URL.createObjectURL(audioBlob);
-      
-      this.updateProgress('transcribing', 10, 'Processing audio...');
-
-      // Transcribe the audio
-      const result = await transcriber(audioUrl, {
-        return_timestamps: returnSegments,
-        chunk_length_s: chunkDuration,
-        stride_length_s: 5, // Overlap between chunks
-        language: language === 'multilingual' ? undefined : language
-      });
+    throwIfAborted(signal);
+    this.updateProgress('loading', 0, 'Initializing transcription...', onProgress || this.onProgress);
 
-      // Clean up the URL
-      URL.revokeObjectURL(audioUrl);
-
-      this.updateProgress('processing', 80, 'Processing results...');
-
-      // Format the result
-      let transcriptionResult: TranscriptionResult;
-
-      if (returnSegments && (result as any).chunks) {
-        // Extract segments with timestamps
-        const segments: TranscriptionSegment[] = (result as any).chunks.map((chunk: any) => ({
-          text: chunk.text.trim(),
-          start: chunk.timestamp?.[0] || 0,
-          end: chunk.timestamp?.[1] || 0
-        }));
-
-        transcriptionResult = {
-          text: (result as any).text,
-          segments,
-          language: language === 'multilingual' ? 'auto' : language
-        };
-      } else {
-        // Simple text result without segments
-        const text = Array.isArray(result) ? result[0]?.text || '' : (result as any).text || '';
-        transcriptionResult = {
-          text,
-          segments: [{
-            text,
-            start: 0,
-            end: 0
-          }],
-          language: language === 'multilingual' ? 'auto' : language
-        };
+    let audio: Float32Array;
+    if (input instanceof Float32Array) {
+      audio = input;
+    } else {
+      try {
+        // Workers have no Web Audio, so decode here and hand the worker raw samples
+        const { VideoToAudioProcessor } = await import('@/utils/videoToAudio');
+        audio = await new VideoToAudioProcessor().decodeAudio(input, WHISPER_SAMPLE_RATE);
+      } catch (error) {
+        console.error('Transcription error:', error);
+        throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+      throwIfAborted(signal);
+    }
 
-      this.updateProgress('complete', 100, 'Transcription complete');
-      return transcriptionResult;
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
 
-    } catch (error) {
-      console.error('Transcription error:', error);
-      throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return new Promise<TranscriptionResult>((resolve, reject) => {
+      const onAbort = () => this.abortRequest(id);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onPartial,
+        onProgress
+      });
+
+      const request: TranscriptionWorkerRequest = { type: 'transcribe', id, audio, options: workerOptions };
+      // Transfer the samples rather than copying them
+      worker.postMessage(request, [audio.buffer]);
+    });
   }
 
   async transcribeVideoFile(
     videoFile: File,
-    options: {
-      language?: string;
-      chunkDuration?: number;
-      returnSegments?: boolean;
-    } = {}
+    options: TranscribeRequestOptions = {}
   ): Promise<TranscriptionResult> {
-    this.updateProgress('loading', 0, 'Extracting audio from video...');
+    const onProgress = options.onProgress || this.onProgress;
+    this.updateProgress('loading', 0, 'Extracting audio from video...', onProgress);
 
     try {
       // Extract audio from video using existing VideoToAudioProcessor
       const { VideoToAudioProcessor } = await import('@/utils/videoToAudio');
       const processor = new VideoToAudioProcessor((progress) => {
-        this.updateProgress('loading', progress.progress * 0.3, progress.message);
+        this.updateProgress('loading', progress.progress * 0.3, progress.message, onProgress);
       });
 
-      const { audioBlob } = await processor.extractAudioFromVideo(videoFile);
-      
-      // Transcribe the extracted audio
-      return this.transcribeAudio(audioBlob, options);
+      const { audioData } = await processor.extractSamples(videoFile, {
+        sampleRate: WHISPER_SAMPLE_RATE,
+        signal: options.signal
+      });
+
+      return this.transcribeAudio(audioData, options);
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Video transcription error:', error);
       throw new Error(`Failed to transcribe video: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  // Reject one transcription right away. Whisper can't be interrupted mid-inference, so when
+  // nothing else is queued the worker is shut down (the model reloads from the browser cache
+  // next time); otherwise the worker is told to discard the result.
+  private abortRequest(id: number) {
+    const request = this.pending.get(id);
+    if (!request) return;
+
+    this.pending.delete(id);
+    request.reject(createAbortError());
+
+    if (this.pending.size === 0) {
+      this.worker?.terminate();
+      this.worker = null;
+    } else {
+      const cancel: TranscriptionWorkerRequest = { type: 'cancel', id };
+      this.worker?.postMessage(cancel);
+    }
+  }
+
   // Get supported languages
   getSupportedLanguages() {
     return [
@@ -206,6 +255,6 @@ export class TranscriptionService {
 
   // Clean up resources
   dispose() {
-    this.transcriber = null;
+    this.terminateWorker(createAbortError());
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,150 @@
+import { pipeline, ProgressInfo, TranslationPipelineType } from '@huggingface/transformers';
+import { TranscriptionSegment } from './transcriptionService';
+
+export interface TranslationProgress {
+  stage: 'loading' | 'translating' | 'complete';
+  progress: number;
+  message: string;
+}
+
+// NLLB-200 identifies languages by FLORES-200 code
+const NLLB_LANGUAGE_CODES: Record<string, string> = {
+  en: 'eng_Latn',
+  es: 'spa_Latn',
+  fr: 'fra_Latn',
+  de: 'deu_Latn',
+  it: 'ita_Latn',
+  pt: 'por_Latn',
+  ru: 'rus_Cyrl',
+  ja: 'jpn_Jpan',
+  ko: 'kor_Hang',
+  zh: 'zho_Hans'
+};
+
+const TRANSLATION_MODEL = 'Xenova/nllb-200-distilled-600M';
+
+export class TranslationService {
+  private translator: TranslationPipelineType | null = null;
+  private onProgress?: (progress: TranslationProgress) => void;
+
+  constructor(onProgress?: (progress: TranslationProgress) => void) {
+    this.onProgress = onProgress;
+  }
+
+  private updateProgress(stage: TranslationProgress['stage'], progress: number, message: string) {
+    this.onProgress?.({ stage, progress, message });
+  }
+
+  async initializeTranslator() {
+    if (this.translator) return this.translator;
+
+    this.updateProgress('loading', 0, 'Loading translation model...');
+
+    try {
+      this.translator = await this.tryLoadModel('webgpu');
+      this.updateProgress('loading', 100, 'Translation model loaded with WebGPU acceleration');
+      return this.translator;
+    } catch (webgpuError) {
+      console.warn('WebGPU failed for translation, falling back to CPU:', webgpuError);
+
+      try {
+        this.translator = await this.tryLoadModel('cpu');
+        this.updateProgress('loading', 100, 'Translation model loaded with CPU');
+        return this.translator;
+      } catch (cpuError) {
+        console.error('Both WebGPU and CPU failed:', cpuError);
+        throw new Error('Failed to load the translation model. Please check your internet connection and try again.');
+      }
+    }
+  }
+
+  private async tryLoadModel(device: 'webgpu' | 'cpu'): Promise<TranslationPipelineType> {
+    const translator: unknown = await pipeline('translation', TRANSLATION_MODEL, {
+      device,
+      dtype: 'q8',
+      progress_callback: (progress: ProgressInfo) => {
+        if (progress.status === 'progress') {
+          this.updateProgress('loading', progress.progress, `Loading translation model (${device.toUpperCase()})...`);
+        }
+      }
+    });
+    return translator as TranslationPipelineType;
+  }
+
+  /**
+   * Translate each segment's text, keeping its start and end so the result lines up with the
+   * original audio. Word timings can't be carried over and are dropped.
+   */
+  async translateSegments(
+    segments: TranscriptionSegment[],
+    options: { sourceLanguage: string; targetLanguage: string; batchSize?: number }
+  ): Promise<TranscriptionSegment[]> {
+    const { sourceLanguage, targetLanguage, batchSize = 8 } = options;
+    const src_lang = NLLB_LANGUAGE_CODES[sourceLanguage];
+    const tgt_lang = NLLB_LANGUAGE_CODES[targetLanguage];
+
+    if (!src_lang) {
+      throw new Error(`Can't translate from "${sourceLanguage}". Transcribe with a specific language to enable translation.`);
+    }
+    if (!tgt_lang) {
+      throw new Error(`Translation into "${targetLanguage}" is not supported.`);
+    }
+
+    const translator = await this.initializeTranslator();
+    const translated: TranscriptionSegment[] = [];
+
+    // NLLB reads the language pair from the generation options, which the typings don't declare
+    const generationOptions = { src_lang, tgt_lang } as unknown as Parameters<TranslationPipelineType>[1];
+
+    for (let i = 0; i < segments.length; i += batchSize) {
+      const batch = segments.slice(i, i + batchSize);
+      const texts = batch.map(segment => segment.text.trim());
+      const pending = texts.filter(Boolean);
+
+      this.updateProgress(
+        'translating',
+        (i / segments.length) * 100,
+        `Translating segment ${i + 1} of ${segments.length}...`
+      );
+
+      const outputs = pending.length > 0
+        ? (await translator(pending, generationOptions)).flat()
+        : [];
+
+      let next = 0;
+      for (let j = 0; j < batch.length; j++) {
+        const text = texts[j] ? outputs[next++]?.translation_text.trim() || '' : '';
+        translated.push({ text, start: batch[j].start, end: batch[j].end });
+      }
+    }
+
+    this.updateProgress('complete', 100, 'Translation complete');
+    return translated;
+  }
+
+  canTranslate(sourceLanguage: string, targetLanguage: string) {
+    return sourceLanguage !== targetLanguage &&
+      !!NLLB_LANGUAGE_CODES[sourceLanguage] &&
+      !!NLLB_LANGUAGE_CODES[targetLanguage];
+  }
+
+  getTranslationLanguages() {
+    return [
+      { code: 'en', name: 'English' },
+      { code: 'es', name: 'Spanish' },
+      { code: 'fr', name: 'French' },
+      { code: 'de', name: 'German' },
+      { code: 'it', name: 'Italian' },
+      { code: 'pt', name: 'Portuguese' },
+      { code: 'ru', name: 'Russian' },
+      { code: 'ja', name: 'Japanese' },
+      { code: 'ko', name: 'Korean' },
+      { code: 'zh', name: 'Chinese' }
+    ];
+  }
+
+  // Clean up resources
+  dispose() {
+    this.translator = null;
+  }
+}
@@ -0,0 +1,250 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { renderSubtitles } from '@/utils/subtitleExport';
+import { SubtitleFormat } from '@/utils/srtGenerator';
+import { proposeYouTubeChapters } from '@/utils/youtubeChapters';
+import { MetadataTemplateSet, TEMPLATE_PACKS } from './metadataTemplates';
+import { ProcessorFunction } from './queueManager';
+import type { TranscribeAudioOptions, TranscriptionResult } from './transcriptionService';
+import { MIN_LANGUAGE_CONFIDENCE, WhisperModelOptions, WhisperModelSize, WhisperQuantization } from './whisperModels';
+import { videoPersistence } from './videoPersistence';
+
+// Settings chosen when the batch job was created, stored in batch_jobs.job_config
+export interface VideoBatchConfig {
+  description?: string;
+  creatorName?: string;
+  videoTopic?: string; // defaults to each video's name
+  keywords?: string;
+  language?: string; // metadata language; follows the detected spoken language when omitted
+  transcriptionLanguage?: string; // 'multilingual' detects the language of each video
+}
+
+/**
+ * The platform-specific steps of video processing. The browser decodes with Web Audio and
+ * transcribes in a Web Worker; the headless worker uses ffmpeg and runs Whisper in-process.
+ * Progress callbacks take 0-100.
+ */
+export interface VideoPipeline<Audio> {
+  extractAudio(video: File, onProgress: (progress: number) => void): Promise<{ audio: Audio; duration: number }>;
+  transcribe(audio: Audio, options: TranscribeAudioOptions, onProgress: (progress: number) => void): Promise<TranscriptionResult>;
+}
+
+// Subtitle files written next to the user's videos for every processed item
+const SUBTITLE_FILE_FORMATS: { format: SubtitleFormat; contentType: string }[] = [
+  { format: 'srt', contentType: 'application/x-subrip' },
+  { format: 'vtt', contentType: 'text/vtt' }
+];
+
+/**
+ * Stage progress callbacks fire many times a second. Only write to the queue item when the
+ * stage changes or progress has moved on by a couple of percent.
+ */
+const createProgressReporter = (updateProgress: (progress: number, stage?: string) => Promise<void>) => {
+  let lastStage = '';
+  let lastProgress = -Infinity;
+
+  return (progress: number, stage: string) => {
+    if (stage === lastStage && progress - lastProgress < 2) return;
+
+    lastStage = stage;
+    lastProgress = progress;
+    updateProgress(progress, stage).catch(error => console.warn('Failed to report queue progress:', error));
+  };
+};
+
+const loadUserSettings = async (userId: string) => {
+  const [{ data: profile }, { data: templates }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('display_name, transcription_model, transcription_english_only, transcription_quantization')
+      .eq('id', userId)
+      .maybeSingle(),
+    supabase
+      .from('metadata_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_default', true)
+  ]);
+
+  const model: WhisperModelOptions | undefined = profile
+    ? {
+        size: profile.transcription_model as WhisperModelSize,
+        englishOnly: profile.transcription_english_only,
+        quantization: profile.transcription_quantization as WhisperQuantization
+      }
+    : undefined;
+
+  const defaultTemplates: MetadataTemplateSet = Object.fromEntries((templates || []).map(row => [row.platform, {
+    platform: row.platform,
+    name: row.name,
+    titleTemplate: row.title_template,
+    descriptionTemplate: row.description_template
+  }]));
+
+  return { displayName: profile?.display_name || null, model, defaultTemplates };
+};
+
+// Store SRT and VTT renderings under the owner's folder in the videos bucket
+const uploadSubtitleFiles = async (video: Pick<Tables<'videos'>, 'id' | 'name' | 'user_id'>, result: TranscriptionResult) => {
+  const language = result.language || 'und';
+  const paths: string[] = [];
+
+  for (const { format, contentType } of SUBTITLE_FILE_FORMATS) {
+    const path = `${video.user_id}/subtitles/${video.id}/${language}.${format}`;
+    const content = renderSubtitles(result.segments, format, { title: video.name });
+
+    const { error } = await supabase.storage
+      .from('videos')
+      .upload(path, new Blob([content], { type: contentType }), { contentType, upsert: true });
+
+    if (error) throw error;
+    paths.push(path);
+  }
+
+  return paths;
+};
+
+// Saved once the transcript is stored, so a paused item resumes at metadata generation
+interface TranscribedCheckpoint {
+  transcriptId: string;
+  subtitleFiles: string[];
+  duration: number;
+  detectedLanguage: string | null;
+  languageConfidence: number | null;
+}
+
+// Rebuild the transcription result from the transcript saved before the item was paused
+const loadTranscribedCheckpoint = async (checkpoint: TranscribedCheckpoint): Promise<TranscriptionResult> => {
+  const { data, error } = await supabase
+    .from('transcripts')
+    .select('*')
+    .eq('id', checkpoint.transcriptId)
+    .single();
+
+  if (error) throw error;
+
+  return {
+    text: data.text,
+    segments: data.segments as unknown as TranscriptionResult['segments'],
+    language: data.language || undefined,
+    detectedLanguage: checkpoint.detectedLanguage || undefined,
+    languageConfidence: checkpoint.languageConfidence ?? undefined,
+    model: data.model_name || undefined
+  };
+};
+
+/**
+ * Create the processor for 'video_processing' batch jobs: it downloads the item's video,
+ * extracts its audio, transcribes it and saves the transcript, subtitle tracks and files, and
+ * platform metadata. Checkpoints after the transcript is saved, which is where a paused item
+ * stops and resumes.
+ */
+export const createVideoQueueProcessor = <Audio>(
+  pipeline: VideoPipeline<Audio>
+): ProcessorFunction<Tables<'queue_items'>> => async (item, updateProgress, context) => {
+  const report = createProgressReporter(updateProgress);
+
+  if (!item.video_id) {
+    throw new Error('Queue item has no video attached');
+  }
+
+  await updateProgress(0, 'Downloading video');
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('id, name, file_path, user_id')
+    .eq('id', item.video_id)
+    .single();
+
+  if (videoError || !video?.file_path) {
+    throw new Error('Video not found or has no stored file');
+  }
+
+  const { data: job } = await supabase
+    .from('batch_jobs')
+    .select('job_config')
+    .eq('id', item.batch_job_id)
+    .single();
+
+  const config = (job?.job_config || {}) as VideoBatchConfig;
+  const settings = await loadUserSettings(video.user_id);
+
+  let result: TranscriptionResult;
+  let transcribed: TranscribedCheckpoint;
+
+  if (context.resumeFrom?.stage === 'transcribed') {
+    await updateProgress(75, 'Resuming from saved transcript');
+    transcribed = context.resumeFrom.data as unknown as TranscribedCheckpoint;
+    result = await loadTranscribedCheckpoint(transcribed);
+  } else {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from('videos')
+      .download(video.file_path);
+
+    if (downloadError || !blob) {
+      throw new Error(`Failed to download video: ${downloadError?.message || 'empty file'}`);
+    }
+
+    // Audio extraction: 5-25%
+    await updateProgress(5, 'Extracting audio');
+    const { audio, duration } = await pipeline.extractAudio(
+      new File([blob], video.name, { type: blob.type }),
+      (progress) => report(5 + progress * 0.2, 'Extracting audio')
+    );
+
+    // Transcription: 25-75%
+    await updateProgress(25, 'Generating transcription');
+    result = await pipeline.transcribe(audio, {
+      language: config.transcriptionLanguage || 'multilingual',
+      returnSegments: true,
+      model: settings.model
+    }, (progress) => report(25 + progress * 0.5, 'Generating transcription'));
+
+    await updateProgress(75, 'Saving transcript and subtitles');
+    const transcript = await videoPersistence.saveTranscript(video.id, result);
+    const subtitleFiles = await uploadSubtitleFiles(video, result);
+
+    transcribed = {
+      transcriptId: transcript.id,
+      subtitleFiles,
+      duration,
+      detectedLanguage: result.detectedLanguage || null,
+      languageConfidence: result.languageConfidence ?? null
+    };
+    await context.checkpoint('transcribed', transcribed as unknown as Record<string, Json>);
+  }
+
+  // Without an explicit metadata language, write in the language that was spoken
+  const detectedLanguage = result.detectedLanguage;
+  const language = config.language || (
+    detectedLanguage && TEMPLATE_PACKS[detectedLanguage] && (result.languageConfidence || 0) >= MIN_LANGUAGE_CONFIDENCE
+      ? detectedLanguage
+      : 'en'
+  );
+
+  await updateProgress(85, 'Creating metadata');
+  await videoPersistence.saveMetadata(video.user_id, video.id, {
+    creatorName: config.creatorName || settings.displayName || 'Creator',
+    videoTopic: config.videoTopic || video.name.replace(/\.[^/.]+$/, ''),
+    language,
+    keywords: config.keywords,
+    transcript: result,
+    // No one reviews chapters in a batch, so the proposal is used as is
+    chapters: proposeYouTubeChapters(result.segments),
+    templates: settings.defaultTemplates
+  });
+
+  await supabase
+    .from('videos')
+    .update({ duration: transcribed.duration, processing_status: 'completed' })
+    .eq('id', video.id);
+
+  // Keep a summary of what was produced on the queue item
+  await context.saveResult({
+    transcriptId: transcribed.transcriptId,
+    language: result.language || null,
+    subtitleFiles: transcribed.subtitleFiles
+  });
+
+  await updateProgress(100, 'Complete');
+};
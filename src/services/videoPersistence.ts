@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { metadataGenerator } from './metadataGenerator';
+import { MetadataTemplateSet } from './metadataTemplates';
+import { TranscriptChapter } from './transcriptAnalyzer';
+import { TranscriptionResult, TranscriptionSegment } from './transcriptionService';
+
+export interface MetadataRequest {
+  creatorName: string;
+  videoTopic: string;
+  language?: string;
+  keywords?: string;
+  transcript?: TranscriptionResult;
+  chapters?: TranscriptChapter[];
+  templates?: MetadataTemplateSet;
+}
+
+/**
+ * Writes processing results for a video. Shared by the Upload page hooks and the batch
+ * processor so both produce the same rows.
+ */
+export class VideoPersistence {
+  // Save a subtitle track as the next version for its video and language. The database numbers
+  // the version, so concurrent saves from the editor, other tabs and batch workers don't collide.
+  async saveSubtitleTrack(
+    videoId: string,
+    segments: TranscriptionSegment[],
+    options: { language: string; label?: string; transcriptId?: string }
+  ): Promise<Tables<'subtitle_tracks'>> {
+    const { data, error } = await supabase.rpc('save_subtitle_track', {
+      _video_id: videoId,
+      _language: options.language,
+      _segments: segments as unknown as Json,
+      _label: options.label,
+      _transcript_id: options.transcriptId
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Save a transcription as the next transcript version together with its subtitle track, in one
+  // transaction
+  async saveTranscript(videoId: string, result: TranscriptionResult): Promise<Tables<'transcripts'>> {
+    const { data, error } = await supabase.rpc('save_transcript', {
+      _video_id: videoId,
+      _text: result.text,
+      _segments: result.segments as unknown as Json,
+      _language: result.language,
+      _model_name: result.model
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Generate metadata for every platform and save it, tracked by a generation record. Safe to
+  // rerun: each platform's row is replaced, and a failed run marks its generation failed.
+  async saveMetadata(userId: string, videoId: string, request: MetadataRequest) {
+    const { data: generation, error: genError } = await supabase
+      .from('generations')
+      .insert({
+        user_id: userId,
+        video_id: videoId,
+        type: 'metadata',
+        status: 'pending'
+      })
+      .select('id')
+      .single();
+
+    if (genError) throw genError;
+
+    try {
+      // Generate platform-specific metadata, from the spoken content when a transcript is available
+      const { transcript, chapters, templates } = request;
+      const input = {
+        creatorName: request.creatorName,
+        videoTopic: request.videoTopic,
+        language: request.language || 'en',
+        keywords: request.keywords || ''
+      };
+      const generatedMetadata = transcript
+        ? metadataGenerator.generateFromTranscript({ ...input, transcript, chapters }, templates)
+        : metadataGenerator.generatePlatformMetadata(input, templates);
+
+      // One statement for all platforms, so either every row is written or none is
+      const { error } = await supabase
+        .from('video_metadata')
+        .upsert(generatedMetadata.map(metadata => ({
+          video_id: videoId,
+          platform: metadata.platform,
+          language: metadata.language,
+          title: metadata.title,
+          description: metadata.description,
+          hashtags: metadata.hashtags,
+          additional_data: transcript
+            ? ({ source: 'transcript', keyPhrases: metadata.keyPhrases, chapters: metadata.chapters } as unknown as Json)
+            : null
+        })), { onConflict: 'video_id,platform' });
+
+      if (error) throw error;
+
+      await supabase
+        .from('generations')
+        .update({ status: 'completed' })
+        .eq('id', generation.id);
+
+      return generatedMetadata;
+    } catch (error) {
+      await supabase
+        .from('generations')
+        .update({ status: 'failed' })
+        .eq('id', generation.id);
+      throw error;
+    }
+  }
+}
+
+export const videoPersistence = new VideoPersistence();
@@ -0,0 +1,66 @@
+// Whisper models are trained on 16 kHz mono audio
+export const WHISPER_SAMPLE_RATE = 16000;
+
+export type WhisperModelSize = 'tiny' | 'base' | 'small' | 'medium';
+export type WhisperQuantization = 'fp32' | 'fp16' | 'q8' | 'q4';
+
+export interface WhisperModelOptions {
+  size: WhisperModelSize;
+  englishOnly: boolean;     // use the English-only model when transcribing English
+  quantization: WhisperQuantization;
+}
+
+export const DEFAULT_WHISPER_MODEL: WhisperModelOptions = {
+  size: 'base',
+  englishOnly: true,
+  quantization: 'q8'
+};
+
+// Parameter counts of the Whisper checkpoints, used to estimate download sizes
+const WHISPER_PARAMETERS: Record<WhisperModelSize, number> = {
+  tiny: 39e6,
+  base: 74e6,
+  small: 244e6,
+  medium: 769e6
+};
+
+const BYTES_PER_PARAMETER: Record<WhisperQuantization, number> = {
+  fp32: 4,
+  fp16: 2,
+  q8: 1,
+  q4: 0.5
+};
+
+export const WHISPER_MODEL_SIZES: { value: WhisperModelSize; label: string; description: string }[] = [
+  { value: 'tiny', label: 'Tiny', description: 'Fastest, for low-end devices' },
+  { value: 'base', label: 'Base', description: 'Balanced speed and accuracy' },
+  { value: 'small', label: 'Small', description: 'Better accuracy on technical speech' },
+  { value: 'medium', label: 'Medium', description: 'Most accurate, needs a fast machine' }
+];
+
+export const WHISPER_QUANTIZATIONS: { value: WhisperQuantization; label: string }[] = [
+  { value: 'fp32', label: 'Full precision (fp32)' },
+  { value: 'fp16', label: 'Half precision (fp16)' },
+  { value: 'q8', label: '8-bit (q8)' },
+  { value: 'q4', label: '4-bit (q4)' }
+];
+
+/**
+ * Hugging Face model id for the options. English-only checkpoints are only used for English;
+ * every other language needs the multilingual model.
+ */
+export function resolveWhisperModel(options: WhisperModelOptions, language: string): string {
+  const englishOnly = options.englishOnly && language === 'en';
+  return `onnx-community/whisper-${options.size}${englishOnly ? '.en' : ''}`;
+}
+
+/**
+ * Approximate download size in bytes. The decoder is exported twice (with and without past
+ * key values), so the total runs about 1.3x the raw weight size.
+ */
+export function estimateWhisperDownloadSize(options: WhisperModelOptions): number {
+  return Math.round(WHISPER_PARAMETERS[options.size] * BYTES_PER_PARAMETER[options.quantization] * 1.3);
+}
+
+// Detections less certain than this are not acted on or reported as mismatches
+export const MIN_LANGUAGE_CONFIDENCE = 0.5;
@@ -0,0 +1,296 @@
+import { AutomaticSpeechRecognitionPipeline, pipeline, ProgressInfo, Tensor } from '@huggingface/transformers';
+import type {
+  LanguageDetection,
+  TranscribeAudioOptions,
+  TranscriptionProgress,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord
+} from './transcriptionService';
+import {
+  DEFAULT_WHISPER_MODEL,
+  WhisperModelOptions,
+  WHISPER_SAMPLE_RATE,
+  WhisperQuantization,
+  resolveWhisperModel
+} from './whisperModels';
+import { joinWords } from '@/utils/cueSegmenter';
+import { AudioChunk, VideoToAudioProcessor } from '@/utils/videoToAudio';
+import { formatChapterTime } from '@/utils/youtubeChapters';
+
+// Whisper identifies the language from the opening 30-second window, the length it was trained on
+const LANGUAGE_DETECTION_SECONDS = 30;
+
+// Chunk shape returned by the transformers.js ASR pipeline when timestamps are requested
+interface WhisperChunk {
+  text: string;
+  timestamp?: [number, number | null];
+}
+
+/**
+ * Runs the Whisper pipeline in the current thread. The app uses it from the transcription
+ * worker; TranscriptionService is the main-thread entry point.
+ */
+export class WhisperTranscriber {
+  private transcriber: AutomaticSpeechRecognitionPipeline | null = null;
+  private modelName: string | null = null;
+  private modelKey: string | null = null;
+  private onProgress?: (progress: TranscriptionProgress) => void;
+
+  constructor(onProgress?: (progress: TranscriptionProgress) => void) {
+    this.onProgress = onProgress;
+  }
+
+  private updateProgress(stage: TranscriptionProgress['stage'], progress: number, message: string) {
+    this.onProgress?.({ stage, progress, message });
+  }
+
+  async initializeTranscriber(language: string = 'en', model: WhisperModelOptions = DEFAULT_WHISPER_MODEL) {
+    const modelName = resolveWhisperModel(model, language);
+    const modelKey = `${modelName}:${model.quantization}`;
+
+    // Reuse the loaded model unless a different one was requested
+    if (this.transcriber && this.modelKey === modelKey) return this.transcriber;
+    this.transcriber = null;
+
+    this.updateProgress('loading', 0, `Loading Whisper ${model.size} model...`);
+
+    try {
+      // Try WebGPU first
+      this.updateProgress('loading', 10, 'Attempting WebGPU acceleration...');
+      
+      this.transcriber = await this.tryLoadModel(modelName, 'webgpu', model.quantization);
+      this.modelName = modelName;
+      this.modelKey = modelKey;
+      this.updateProgress('loading', 100, 'Model loaded with WebGPU acceleration');
+      return this.transcriber;
+      
+    } catch (webgpuError) {
+      console.warn('WebGPU failed, falling back to CPU:', webgpuError);
+      
+      try {
+        this.updateProgress('loading', 30, 'WebGPU unavailable, using CPU...');
+        
+        this.transcriber = await this.tryLoadModel(modelName, 'cpu', model.quantization);
+        this.modelName = modelName;
+        this.modelKey = modelKey;
+        this.updateProgress('loading', 100, 'Model loaded with CPU');
+        return this.transcriber;
+        
+      } catch (cpuError) {
+        console.error('Both WebGPU and CPU failed:', cpuError);
+        throw new Error('Failed to load Whisper model. Please check your internet connection and try again.');
+      }
+    }
+  }
+
+  private async tryLoadModel(
+    modelName: string,
+    device: 'webgpu' | 'cpu',
+    dtype: WhisperQuantization
+  ): Promise<AutomaticSpeechRecognitionPipeline> {
+    const transcriber: unknown = await pipeline(
+      'automatic-speech-recognition',
+      modelName,
+      {
+        device,
+        dtype,
+        progress_callback: (progress: ProgressInfo) => {
+          if (progress.status === 'progress') {
+            const baseProgress = device === 'webgpu' ? 10 : 30;
+            const progressRange = device === 'webgpu' ? 70 : 60;
+            const currentProgress = baseProgress + (progress.progress / 100) * progressRange;
+            this.updateProgress('loading', currentProgress, `Loading model (${device.toUpperCase()})...`);
+          }
+        }
+      }
+    );
+    return transcriber as AutomaticSpeechRecognitionPipeline;
+  }
+
+  /**
+   * Transcribe mono 16 kHz PCM samples. The audio is cut into chunks at quiet points and each
+   * chunk's segments are passed to onPartial as soon as it is done, so callers can show the
+   * transcript growing and real progress through the file.
+   */
+  async transcribe(
+    audio: Float32Array,
+    options: TranscribeAudioOptions = {},
+    onPartial?: (segments: TranscriptionSegment[]) => void
+  ): Promise<TranscriptionResult> {
+    const { 
+      language = 'en', 
+      chunkDuration = 30, // seconds
+      returnSegments = true,
+      wordTimestamps = false,
+      model = DEFAULT_WHISPER_MODEL
+    } = options;
+
+    this.updateProgress('loading', 0, 'Initializing transcription...');
+
+    try {
+      const transcriber = await this.initializeTranscriber(language, model);
+
+      this.updateProgress('transcribing', 5, 'Identifying spoken language...');
+      const detection = await this.detectLanguage(transcriber, audio);
+
+      // In auto mode transcribe in the detected language; Whisper would otherwise assume English
+      const spokenLanguage = language === 'multilingual' ? detection?.language : language;
+
+      const processor = new VideoToAudioProcessor();
+      const chunks = await processor.chunkAudio(audio, { sampleRate: WHISPER_SAMPLE_RATE, chunkDuration });
+      const duration = audio.length / WHISPER_SAMPLE_RATE;
+      const segments: TranscriptionSegment[] = [];
+
+      this.updateProgress('transcribing', 10, `Transcribing 00:00 of ${formatChapterTime(duration)}...`);
+
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+
+        // Neighbouring chunks overlap slightly; each keeps only what starts on its side of
+        // the middle of the overlap so nothing is transcribed twice
+        const from = i > 0 ? (chunk.startTime + chunks[i - 1].endTime) / 2 : 0;
+        const to = i < chunks.length - 1 ? (chunks[i + 1].startTime + chunk.endTime) / 2 : Infinity;
+
+        const chunkSegments = await this.transcribeChunk(transcriber, chunk, { language: spokenLanguage, wordTimestamps, from, to });
+        segments.push(...chunkSegments);
+        onPartial?.(chunkSegments);
+
+        this.updateProgress(
+          'transcribing',
+          10 + (chunk.endTime / duration) * 80,
+          `Transcribing ${formatChapterTime(chunk.endTime)} of ${formatChapterTime(duration)}...`
+        );
+      }
+
+      this.updateProgress('processing', 90, 'Processing results...');
+
+      const text = segments.map(segment => segment.text).join(' ');
+      const transcriptionResult: TranscriptionResult = {
+        text,
+        // Without segments the whole transcript is returned as one untimed segment
+        segments: returnSegments || wordTimestamps ? segments : [{ text, start: 0, end: 0 }],
+        language: language === 'multilingual' ? detection?.language || 'auto' : language,
+        detectedLanguage: detection?.language,
+        languageConfidence: detection?.confidence,
+        model: this.modelName
+      };
+
+      this.updateProgress('complete', 100, 'Transcription complete');
+      return transcriptionResult;
+
+    } catch (error) {
+      console.error('Transcription error:', error);
+      throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Transcribe one chunk, shifting its timestamps to the full recording and keeping only the
+  // segments (or words) that start within [from, to)
+  private async transcribeChunk(
+    transcriber: AutomaticSpeechRecognitionPipeline,
+    chunk: AudioChunk,
+    options: { language?: string; wordTimestamps: boolean; from: number; to: number }
+  ): Promise<TranscriptionSegment[]> {
+    const { language, wordTimestamps, from, to } = options;
+    const chunkLength = chunk.endTime - chunk.startTime;
+
+    const output = await transcriber(chunk.audioData, {
+      return_timestamps: wordTimestamps ? 'word' : true,
+      language
+    });
+    // A single input gives a single output; the array form is for batched inputs
+    const result = Array.isArray(output) ? output[0] : output;
+
+    const timed = ((result.chunks || []) as WhisperChunk[])
+      .map(piece => ({
+        text: wordTimestamps ? piece.text : piece.text.trim(),
+        start: chunk.startTime + (piece.timestamp?.[0] || 0),
+        // Whisper leaves the end open when speech runs to the end of the audio
+        end: chunk.startTime + (piece.timestamp?.[1] ?? chunkLength)
+      }))
+      .filter(piece => piece.text.trim().length > 0 && piece.start >= from && piece.start < to);
+
+    // With word timestamps every piece is a single word; regroup them into segments
+    return wordTimestamps ? this.groupWordsIntoSegments(timed) : timed;
+  }
+
+  /**
+   * Identify the spoken language from Whisper's prediction for the token that follows
+   * <|startoftranscript|>, which is always a language token such as <|es|>. Returns null for
+   * English-only models, which have no language tokens.
+   */
+  private async detectLanguage(transcriber: AutomaticSpeechRecognitionPipeline, audio: Float32Array): Promise<LanguageDetection | null> {
+    // Whisper's generation config adds these fields; the library types only declare the base class
+    const config = transcriber.model.generation_config as typeof transcriber.model.generation_config & {
+      is_multilingual?: boolean | null;
+      lang_to_id?: Record<string, number> | null;
+    };
+    if (!config?.is_multilingual || !config.lang_to_id) return null;
+
+    try {
+      const sample = audio.subarray(0, LANGUAGE_DETECTION_SECONDS * WHISPER_SAMPLE_RATE);
+      const { input_features } = await transcriber.processor(sample);
+      const decoder_input_ids = new Tensor('int64', BigInt64Array.from([BigInt(config.decoder_start_token_id)]), [1, 1]);
+      const { logits } = await transcriber.model({ input_features, decoder_input_ids });
+      const scores = logits.data as Float32Array;
+
+      // Softmax over the language tokens only
+      const candidates = Object.entries(config.lang_to_id)
+        .map(([token, id]) => ({ language: token.slice(2, -2), score: scores[id] }));
+      const best = Math.max(...candidates.map(candidate => candidate.score));
+      const total = candidates.reduce((sum, candidate) => sum + Math.exp(candidate.score - best), 0);
+      const top = candidates.find(candidate => candidate.score === best)!;
+
+      return { language: top.language, confidence: 1 / total };
+    } catch (error) {
+      // Transcription still works without detection, so don't fail the whole job
+      console.warn('Language detection failed:', error);
+      return null;
+    }
+  }
+
+  // Group word timings into sentence-like segments, breaking on end punctuation or long pauses
+  private groupWordsIntoSegments(
+    words: TranscriptionWord[],
+    maxPause: number = 1.0,
+    maxWords: number = 30
+  ): TranscriptionSegment[] {
+    const segments: TranscriptionSegment[] = [];
+    let current: TranscriptionWord[] = [];
+
+    const flush = () => {
+      if (current.length === 0) return;
+      segments.push({
+        text: joinWords(current),
+        start: current[0].start,
+        end: current[current.length - 1].end,
+        words: current
+      });
+      current = [];
+    };
+
+    for (const word of words) {
+      const previous = current[current.length - 1];
+      if (previous && (word.start - previous.end > maxPause || current.length >= maxWords)) {
+        flush();
+      }
+
+      current.push(word);
+
+      if (/[.!?]["')\]]?$/.test(word.text)) {
+        flush();
+      }
+    }
+    flush();
+
+    return segments;
+  }
+
+  // Clean up resources
+  dispose() {
+    this.transcriber = null;
+    this.modelName = null;
+    this.modelKey = null;
+  }
+}
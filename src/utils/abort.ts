@@ -0,0 +1,11 @@
+// Cancellation helpers shared by the audio and transcription pipelines. Aborted operations
+// reject with a DOMException named 'AbortError', the same as fetch().
+
+export const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { ASSCue, ASSGenerator, DEFAULT_ASS_STYLE } from './assGenerator';
+
+const styleLine = (ass: string) => ass.split('\n').find(line => line.startsWith('Style: '))!.slice('Style: '.length).split(',');
+const dialogueLines = (ass: string) => ass.split('\n').filter(line => line.startsWith('Dialogue: '));
+
+describe('generateASS', () => {
+  it('writes script info, styles and one dialogue line per cue', () => {
+    const ass = ASSGenerator.generateASS([
+      { text: 'Hello', start: 0, end: 1.5 },
+      { text: ' ', start: 2, end: 3 },
+      { text: 'An hour in', start: 3661.234, end: 3665 }
+    ]);
+
+    expect(ass).toContain('[Script Info]\nTitle: ClipCaption Subtitles\nScriptType: v4.00+');
+    expect(ass).toContain('PlayResX: 1920\nPlayResY: 1080');
+    expect(dialogueLines(ass)).toEqual([
+      'Dialogue: 0,0:00:00.00,0:00:01.50,Default,,0,0,0,,Hello',
+      'Dialogue: 0,1:01:01.23,1:01:05.00,Default,,0,0,0,,An hour in'
+    ]);
+  });
+
+  it('converts colours to &HAABBGGRR, expanding three-digit hex', () => {
+    const ass = ASSGenerator.generateASS([], {
+      styles: [{ ...DEFAULT_ASS_STYLE, primaryColour: '#ff8000', outlineColour: '#0f8', backColour: '&H80000000' }]
+    });
+    const [, , , primary, secondary, outline, back] = styleLine(ass);
+
+    expect([primary, secondary, outline, back]).toEqual(['&H000080FF', '&H000080FF', '&H0088FF00', '&H80000000']);
+  });
+
+  it('writes bold, italic and alignment into the style', () => {
+    const fields = styleLine(ASSGenerator.generateASS([], {
+      styles: [{ ...DEFAULT_ASS_STYLE, name: 'Top', bold: true, italic: true, alignment: 8 }]
+    }));
+
+    expect(fields[0]).toBe('Top');
+    expect(fields[7]).toBe('-1');
+    expect(fields[8]).toBe('-1');
+    expect(fields[18]).toBe('8');
+  });
+
+  it('escapes line breaks and braces and adds per-cue overrides', () => {
+    const cues: ASSCue[] = [
+      { text: 'Line one\nline {two}', start: 0, end: 1 },
+      { text: 'Styled', start: 1, end: 2, style: 'Missing', overrides: { alignment: 8, primaryColour: '#f00', bold: true } }
+    ];
+
+    expect(dialogueLines(ASSGenerator.generateASS(cues))).toEqual([
+      'Dialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Line one\\Nline (two)',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\an8\\c&H0000FF&\\b1}Styled'
+    ]);
+  });
+});
+
+describe('parseASS', () => {
+  it('round-trips text, timing and style', () => {
+    const cues: ASSCue[] = [
+      { text: 'Hello, world!', start: 0, end: 1.5, style: 'Default' },
+      { text: 'Two\nlines', start: 2.25, end: 4, style: 'Top' },
+      { text: 'An hour in', start: 3661.23, end: 3665, style: 'Default' }
+    ];
+    const ass = ASSGenerator.generateASS(cues, {
+      styles: [DEFAULT_ASS_STYLE, { ...DEFAULT_ASS_STYLE, name: 'Top', alignment: 8 }]
+    });
+
+    expect(ASSGenerator.parseASS(ass)).toEqual(cues);
+  });
+
+  it('strips override tags and honours the Format line field order', () => {
+    const ass = [
+      '[Events]',
+      'Format: Layer, Style, Start, End, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,Sign,0:00:01.00,0:00:02.00,,0,0,0,,{\\an8\\b1}Look,\\hup{\\i1}!'
+    ].join('\r\n');
+
+    expect(ASSGenerator.parseASS(ass)).toEqual([{ text: 'Look, up!', start: 1, end: 2, style: 'Sign' }]);
+  });
+
+  it('skips truncated lines, unreadable times and dialogue outside [Events]', () => {
+    const ass = [
+      '[V4+ Styles]',
+      'Dialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Not an event',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default',
+      'Dialogue: 0,soon,0:00:02.00,Default,,0,0,0,,Bad start',
+      'Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,Kept'
+    ].join('\n');
+
+    expect(ASSGenerator.parseASS(ass)).toEqual([{ text: 'Kept', start: 3, end: 4, style: 'Default' }]);
+  });
+});
@@ -0,0 +1,269 @@
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { SRTGenerator } from '@/utils/srtGenerator';
+
+export interface ASSStyle {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColour: string; // #RRGGBB or &HAABBGGRR
+  outlineColour: string;
+  backColour?: string;
+  bold?: boolean;
+  italic?: boolean;
+  outline?: number;
+  shadow?: number;
+  alignment: number; // numpad layout: 1-3 bottom, 4-6 middle, 7-9 top
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+export type ASSStyleOverrides = Partial<Pick<ASSStyle,
+  'fontName' | 'fontSize' | 'primaryColour' | 'outlineColour' | 'bold' | 'italic' | 'alignment'
+>>;
+
+export interface ASSCue extends TranscriptionSegment {
+  style?: string;
+  overrides?: ASSStyleOverrides;
+}
+
+export interface ASSOptions {
+  title?: string;
+  styles?: ASSStyle[];
+  defaultStyle?: string;
+  playResX?: number;
+  playResY?: number;
+}
+
+export const DEFAULT_ASS_STYLE: ASSStyle = {
+  name: 'Default',
+  fontName: 'Arial',
+  fontSize: 48,
+  primaryColour: '#FFFFFF',
+  outlineColour: '#000000',
+  backColour: '#000000',
+  bold: false,
+  italic: false,
+  outline: 2,
+  shadow: 0,
+  alignment: 2,
+  marginL: 20,
+  marginR: 20,
+  marginV: 40
+};
+
+const STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+  'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle',
+  'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding'
+];
+
+const EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+export class ASSGenerator {
+  /**
+   * Convert seconds to ASS time format (H:MM:SS.cc)
+   */
+  private static secondsToASSTime(seconds: number): string {
+    const totalCentiseconds = Math.round(seconds * 100);
+    const hours = Math.floor(totalCentiseconds / 360000);
+    const minutes = Math.floor((totalCentiseconds % 360000) / 6000);
+    const secs = Math.floor((totalCentiseconds % 6000) / 100);
+    const centiseconds = totalCentiseconds % 100;
+
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs
+      .toString()
+      .padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Convert ASS time format to seconds, or null if the value isn't a valid time
+   */
+  private static assTimeToSeconds(timeString: string | undefined): number | null {
+    const match = timeString?.trim().match(/^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+    if (!match) return null;
+
+    const [, hours, minutes, seconds] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  /**
+   * Convert #RRGGBB or #RGB (or an existing &H value) to the ASS &HAABBGGRR colour format
+   */
+  private static toASSColour(colour: string): string {
+    if (colour.startsWith('&H')) return colour;
+
+    let hex = colour.replace('#', '');
+    if (hex.length === 3) hex = hex.split('').map(digit => digit + digit).join('');
+    hex = hex.padStart(6, '0');
+    const [r, g, b] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+    return `&H00${b}${g}${r}`.toUpperCase();
+  }
+
+  /**
+   * Convert #RRGGBB to the &HBBGGRR& form used inside override tags
+   */
+  private static toOverrideColour(colour: string): string {
+    return `${this.toASSColour(colour).replace(/^&H[0-9A-F]{2}(?=[0-9A-F]{6}$)/i, '&H')}&`;
+  }
+
+  private static formatStyle(style: ASSStyle): string {
+    const values = [
+      style.name,
+      style.fontName,
+      style.fontSize,
+      this.toASSColour(style.primaryColour),
+      this.toASSColour(style.primaryColour),
+      this.toASSColour(style.outlineColour),
+      this.toASSColour(style.backColour || '#000000'),
+      style.bold ? -1 : 0,
+      style.italic ? -1 : 0,
+      0, 0, 100, 100, 0, 0,
+      1,
+      style.outline ?? 2,
+      style.shadow ?? 0,
+      style.alignment,
+      style.marginL,
+      style.marginR,
+      style.marginV,
+      1
+    ];
+
+    return `Style: ${values.join(',')}`;
+  }
+
+  private static formatOverrides(overrides: ASSStyleOverrides = {}): string {
+    const tags: string[] = [];
+
+    if (overrides.alignment !== undefined) tags.push(`\\an${overrides.alignment}`);
+    if (overrides.fontName) tags.push(`\\fn${overrides.fontName}`);
+    if (overrides.fontSize !== undefined) tags.push(`\\fs${overrides.fontSize}`);
+    if (overrides.primaryColour) tags.push(`\\c${this.toOverrideColour(overrides.primaryColour)}`);
+    if (overrides.outlineColour) tags.push(`\\3c${this.toOverrideColour(overrides.outlineColour)}`);
+    if (overrides.bold !== undefined) tags.push(`\\b${overrides.bold ? 1 : 0}`);
+    if (overrides.italic !== undefined) tags.push(`\\i${overrides.italic ? 1 : 0}`);
+
+    return tags.length > 0 ? `{${tags.join('')}}` : '';
+  }
+
+  /**
+   * Escape cue text for a Dialogue line: newlines become \N and braces are neutralised
+   */
+  private static escapeText(text: string): string {
+    return text
+      .trim()
+      .replace(/[{}]/g, match => (match === '{' ? '(' : ')'))
+      .replace(/\r?\n/g, '\\N');
+  }
+
+  /**
+   * Generate ASS (Advanced SubStation Alpha v4+) content from transcription segments
+   */
+  static generateASS(segments: Array<TranscriptionSegment | ASSCue>, options: ASSOptions = {}): string {
+    const {
+      title = 'ClipCaption Subtitles',
+      styles = [DEFAULT_ASS_STYLE],
+      playResX = 1920,
+      playResY = 1080
+    } = options;
+    const defaultStyle = options.defaultStyle || styles[0]?.name || DEFAULT_ASS_STYLE.name;
+    const styleNames = new Set(styles.map(style => style.name));
+
+    const scriptInfo = [
+      '[Script Info]',
+      `Title: ${title}`,
+      'ScriptType: v4.00+',
+      'WrapStyle: 0',
+      'ScaledBorderAndShadow: yes',
+      `PlayResX: ${playResX}`,
+      `PlayResY: ${playResY}`
+    ].join('\n');
+
+    const stylesSection = [
+      '[V4+ Styles]',
+      `Format: ${STYLE_FORMAT.join(', ')}`,
+      ...styles.map(style => this.formatStyle(style))
+    ].join('\n');
+
+    const dialogues = segments
+      .filter(segment => segment.text.trim().length > 0)
+      .map(segment => {
+        const cue = segment as ASSCue;
+        const style = cue.style && styleNames.has(cue.style) ? cue.style : defaultStyle;
+        const text = `${this.formatOverrides(cue.overrides)}${this.escapeText(segment.text)}`;
+
+        return `Dialogue: 0,${this.secondsToASSTime(segment.start)},${this.secondsToASSTime(
+          segment.end || segment.start + 2
+        )},${style},,0,0,0,,${text}`;
+      });
+
+    const eventsSection = [
+      '[Events]',
+      `Format: ${EVENT_FORMAT.join(', ')}`,
+      ...dialogues
+    ].join('\n');
+
+    return `${scriptInfo}\n\n${stylesSection}\n\n${eventsSection}\n`;
+  }
+
+  /**
+   * Parse ASS/SSA content back to cues. Override tags are stripped; text and timing are kept.
+   * Dialogue lines with missing fields or unreadable times are skipped.
+   */
+  static parseASS(assContent: string): ASSCue[] {
+    const cues: ASSCue[] = [];
+    let inEvents = false;
+    let format = EVENT_FORMAT.map(field => field.toLowerCase());
+
+    for (const rawLine of assContent.replace(/\r\n/g, '\n').split('\n')) {
+      const line = rawLine.trim();
+
+      if (line.startsWith('[')) {
+        inEvents = line.toLowerCase() === '[events]';
+        continue;
+      }
+      if (!inEvents) continue;
+
+      if (line.startsWith('Format:')) {
+        format = line.slice('Format:'.length).split(',').map(field => field.trim().toLowerCase());
+        continue;
+      }
+      if (!line.startsWith('Dialogue:')) continue;
+
+      // Text is always the last field and may itself contain commas
+      const fields = line.slice('Dialogue:'.length).trim().split(',');
+      if (fields.length < format.length) continue; // truncated line
+      const values = [
+        ...fields.slice(0, format.length - 1),
+        fields.slice(format.length - 1).join(',')
+      ];
+      const field = (name: string) => values[format.indexOf(name)];
+
+      const text = (field('text') || '')
+        .replace(/\{[^}]*\}/g, '')
+        .replace(/\\[Nn]/g, '\n')
+        .replace(/\\h/g, ' ')
+        .trim();
+
+      const start = this.assTimeToSeconds(field('start'));
+      const end = this.assTimeToSeconds(field('end'));
+      if (start === null || end === null) continue;
+
+      cues.push({
+        text,
+        start,
+        end,
+        style: field('style')?.trim() || undefined
+      });
+    }
+
+    return cues;
+  }
+
+  /**
+   * Download ASS file
+   */
+  static downloadASS(content: string, filename: string = 'subtitles.ass') {
+    SRTGenerator.downloadFile(content, filename, '.ass', 'text/x-ssa;charset=utf-8');
+  }
+}
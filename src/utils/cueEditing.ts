@@ -0,0 +1,183 @@
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { joinWords } from '@/utils/cueSegmenter';
+
+// Shortest cue the editor will produce when splitting or retiming
+export const MIN_CUE_LENGTH = 0.2;
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export function sortCues(cues: TranscriptionSegment[]): TranscriptionSegment[] {
+  return [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Move or resize a cue. Timings are clamped to be non-negative and at least MIN_CUE_LENGTH long.
+ */
+export function retimeCue(
+  cues: TranscriptionSegment[],
+  index: number,
+  start: number,
+  end: number
+): TranscriptionSegment[] {
+  const clampedStart = Math.max(0, start);
+  const clampedEnd = Math.max(clampedStart + MIN_CUE_LENGTH, end);
+
+  return cues.map((cue, i) =>
+    i === index ? { ...cue, start: round(clampedStart), end: round(clampedEnd), words: undefined } : cue
+  );
+}
+
+// Scripts written without spaces between words (and their punctuation); text may break between
+// any two of these characters
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}\u3000-\u303F\uFF00-\uFFEF]/u;
+
+// Divide text at the word boundary closest to a proportion of its length
+function splitTextByRatio(text: string, ratio: number): [string, string] {
+  const chars = Array.from(text.trim());
+  const breaks: number[] = [];
+
+  for (let i = 1; i < chars.length; i++) {
+    const spaced = /\s/.test(chars[i]) && !/\s/.test(chars[i - 1]);
+    if (spaced || (UNSPACED.test(chars[i - 1]) && UNSPACED.test(chars[i]))) breaks.push(i);
+  }
+
+  // A single word stays with the first half; the second cue starts empty for the user to fill
+  if (breaks.length === 0) return [chars.join(''), ''];
+
+  const target = chars.length * ratio;
+  const at = breaks.reduce((best, position) => (Math.abs(position - target) < Math.abs(best - target) ? position : best));
+  return [chars.slice(0, at).join('').trim(), chars.slice(at).join('').trim()];
+}
+
+/**
+ * Split a cue at the given time. With word timings, words spoken before the split stay in the
+ * first cue; otherwise text is divided at the word boundary closest to the proportional position
+ * of the split.
+ */
+export function splitCue(cues: TranscriptionSegment[], index: number, at?: number): TranscriptionSegment[] {
+  const cue = cues[index];
+  if (!cue) return cues;
+
+  const splitTime = at !== undefined && at > cue.start + MIN_CUE_LENGTH && at < cue.end - MIN_CUE_LENGTH
+    ? at
+    : (cue.start + cue.end) / 2;
+
+  const first: TranscriptionSegment = { text: '', start: cue.start, end: round(splitTime) };
+  const second: TranscriptionSegment = { text: '', start: round(splitTime), end: cue.end };
+
+  if (cue.words && cue.words.length > 0) {
+    const splitWord = cue.words.findIndex(word => word.start >= splitTime);
+    first.words = splitWord === -1 ? cue.words : cue.words.slice(0, splitWord);
+    second.words = splitWord === -1 ? [] : cue.words.slice(splitWord);
+    first.text = joinWords(first.words);
+    second.text = joinWords(second.words);
+  } else {
+    const ratio = (splitTime - cue.start) / Math.max(cue.end - cue.start, MIN_CUE_LENGTH);
+    [first.text, second.text] = splitTextByRatio(cue.text, ratio);
+  }
+
+  return [...cues.slice(0, index), first, second, ...cues.slice(index + 1)];
+}
+
+/**
+ * Merge a cue with the one that follows it
+ */
+export function mergeWithNext(cues: TranscriptionSegment[], index: number): TranscriptionSegment[] {
+  const cue = cues[index];
+  const next = cues[index + 1];
+  if (!cue || !next) return cues;
+
+  const text = cue.text.trim();
+  const nextText = next.text.trim();
+  const separator = UNSPACED.test(text.slice(-1)) && UNSPACED.test(nextText.charAt(0)) ? '' : ' ';
+
+  const merged: TranscriptionSegment = {
+    text: `${text}${separator}${nextText}`.trim(),
+    start: Math.min(cue.start, next.start),
+    end: Math.max(cue.end, next.end)
+  };
+
+  if (cue.words && next.words) {
+    merged.words = [...cue.words, ...next.words];
+    merged.text = joinWords(merged.words);
+  }
+
+  return [...cues.slice(0, index), merged, ...cues.slice(index + 2)];
+}
+
+export function deleteCue(cues: TranscriptionSegment[], index: number): TranscriptionSegment[] {
+  return cues.filter((_, i) => i !== index);
+}
+
+export function updateCueText(cues: TranscriptionSegment[], index: number, text: string): TranscriptionSegment[] {
+  return cues.map((cue, i) => (i === index ? { ...cue, text, words: undefined } : cue));
+}
+
+/**
+ * Shift every cue by an offset in seconds, never moving a cue before 0
+ */
+export function shiftCues(cues: TranscriptionSegment[], offset: number): TranscriptionSegment[] {
+  const earliest = cues.reduce((min, cue) => Math.min(min, cue.start), Infinity);
+  const delta = earliest + offset < 0 ? -earliest : offset;
+
+  return cues.map(cue => ({
+    ...cue,
+    start: round(cue.start + delta),
+    end: round(cue.end + delta),
+    words: cue.words?.map(word => ({ ...word, start: word.start + delta, end: word.end + delta }))
+  }));
+}
+
+/**
+ * Problems that would make the track unusable, numbered like the editor's cue list (#1, #2, ...)
+ */
+export function validateCues(cues: TranscriptionSegment[]): string[] {
+  const errors: string[] = [];
+  let previousEnd = -Infinity;
+
+  cues.forEach((cue, index) => {
+    const label = `Cue ${index + 1}`;
+
+    if (cue.end <= cue.start) {
+      errors.push(`${label}: End time must be after start time`);
+    }
+    if (cue.start < previousEnd) {
+      errors.push(`${label}: Overlaps the previous cue`);
+    }
+    if (cue.text.trim().length === 0) {
+      errors.push(`${label}: Missing subtitle text`);
+    }
+    previousEnd = Math.max(previousEnd, cue.end);
+  });
+
+  return errors;
+}
+
+/**
+ * Format seconds as MM:SS.mmm (or H:MM:SS.mmm) for display in the editor
+ */
+export function formatCueTime(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const base = `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms
+    .toString()
+    .padStart(3, '0')}`;
+  return hours > 0 ? `${hours}:${base}` : base;
+}
+
+/**
+ * Parse MM:SS.mmm, H:MM:SS.mmm or plain seconds. Returns null for malformed input.
+ */
+export function parseCueTime(value: string): number | null {
+  const trimmed = value.trim().replace(',', '.');
+  if (!/^(\d+:){0,2}\d+(\.\d+)?$/.test(trimmed)) return null;
+
+  return trimmed
+    .split(':')
+    .map(Number)
+    .reduce((total, part) => total * 60 + part, 0);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionSegment, TranscriptionWord } from '@/services/transcriptionService';
+import { balanceLines, DEFAULT_SEGMENTATION_OPTIONS, joinWords, resegmentCues } from './cueSegmenter';
+
+const { maxCharsPerLine, maxLinesPerCue, maxCharsPerSecond, minCueDuration, maxCueDuration } = DEFAULT_SEGMENTATION_OPTIONS;
+
+// Words spoken back to back at a steady rate, with the leading space the transcriber puts on them
+const timedWords = (text: string, start: number, secondsPerWord: number): TranscriptionWord[] =>
+  text.split(' ').map((token, index) => ({
+    text: index > 0 ? ` ${token}` : token,
+    start: start + index * secondsPerWord,
+    end: start + (index + 1) * secondsPerWord
+  }));
+
+const expectWithinLimits = (cues: TranscriptionSegment[]) => {
+  for (const cue of cues) {
+    const lines = cue.text.split('\n');
+    expect(lines.length).toBeLessThanOrEqual(maxLinesPerCue);
+    for (const line of lines) expect(line.length).toBeLessThanOrEqual(maxCharsPerLine);
+    expect(cue.end - cue.start).toBeLessThanOrEqual(maxCueDuration + 1e-9);
+    expect(cue.text.replace(/\n/g, ' ').length / (cue.end - cue.start)).toBeLessThanOrEqual(maxCharsPerSecond + 1e-9);
+  }
+};
+
+const expectInOrder = (cues: TranscriptionSegment[]) => {
+  cues.forEach((cue, index) => {
+    expect(cue.end).toBeGreaterThan(cue.start);
+    if (index > 0) expect(cue.start).toBeGreaterThanOrEqual(cues[index - 1].end - 1e-9);
+  });
+};
+
+describe('resegmentCues', () => {
+  it('splits a long segment into cues that respect the line, length and duration limits', () => {
+    const text = 'The quick brown fox jumps over the lazy dog while the farmer watches from the porch, ' +
+      'and nobody in the village can quite believe what they are seeing. ' +
+      'Later that evening the fox returns with friends, which surprises everyone even more.';
+    const cues = resegmentCues([{ text, start: 0, end: 40 }]);
+
+    expect(cues.length).toBeGreaterThan(1);
+    expectWithinLimits(cues);
+    expectInOrder(cues);
+    expect(cues.map(cue => cue.text.replace(/\n/g, ' ')).join(' ')).toBe(text);
+  });
+
+  it('breaks at the end of a sentence rather than mid-clause', () => {
+    const text = 'We shipped the new release this morning. Everyone on the team is already working on the next one.';
+    const cues = resegmentCues([{ text, start: 0, end: 10 }]);
+
+    expect(cues).toHaveLength(2);
+    expect(cues[0].text.replace(/\n/g, ' ')).toBe('We shipped the new release this morning.');
+  });
+
+  it('uses word timings for cue boundaries and keeps the words on each cue', () => {
+    const words = timedWords('One two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen seventeen eighteen', 0, 0.5);
+    const cues = resegmentCues([{ text: joinWords(words), start: 0, end: 9, words }]);
+
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.flatMap(cue => cue.words)).toEqual(words);
+    for (const cue of cues) {
+      expect(cue.start).toBe(cue.words![0].start);
+      expect(cue.text.replace(/\n/g, ' ')).toBe(joinWords(cue.words!));
+    }
+  });
+
+  it('keeps scripts written without spaces intact', () => {
+    const words: TranscriptionWord[] = [
+      { text: '今日は', start: 0, end: 0.5 },
+      { text: 'いい', start: 0.5, end: 1 },
+      { text: '天気', start: 1, end: 1.5 },
+      { text: 'ですね。', start: 1.5, end: 2 }
+    ];
+    const cues = resegmentCues([{ text: '今日はいい天気ですね。', start: 0, end: 2, words }]);
+
+    expect(cues.map(cue => cue.text).join('')).toBe('今日はいい天気ですね。');
+  });
+
+  it('stretches short cues to the minimum duration without overlapping the next cue', () => {
+    const cues = resegmentCues([
+      { text: 'Hi.', start: 0, end: 0.2 },
+      { text: 'Hello there.', start: 0.6, end: 0.9 },
+      { text: 'Bye.', start: 5, end: 5.3 }
+    ]);
+
+    expect(cues.map(cue => [cue.start, cue.end])).toEqual([[0, 0.6], [0.6, 1.6], [5, 5 + minCueDuration]]);
+  });
+
+  it('splits a cue that reads too fast and cannot be stretched', () => {
+    const text = 'This sentence is far too long to read in one second.';
+    const cues = resegmentCues([
+      { text, start: 0, end: 1 },
+      { text: 'Next.', start: 1, end: 2 }
+    ]);
+
+    expect(cues.length).toBeGreaterThan(2);
+    expect(cues[0].start).toBe(0);
+    expect(cues.find(cue => cue.text === 'Next.')!.start).toBe(1);
+    expectInOrder(cues);
+    expect(cues.slice(0, -1).map(cue => cue.text.replace(/\n/g, ' ')).join(' ')).toBe(text);
+  });
+
+  it('drops empty segments', () => {
+    expect(resegmentCues([{ text: '  ', start: 0, end: 1 }, { text: '', start: 1, end: 2 }])).toEqual([]);
+  });
+});
+
+describe('balanceLines', () => {
+  it('leaves text that fits on one line alone', () => {
+    expect(balanceLines('  Short and sweet. ', 42, 2)).toBe('Short and sweet.');
+  });
+
+  it('breaks long text into lines of similar length', () => {
+    const lines = balanceLines('the rain in spain falls mainly on the plain and the hills nearby', 42, 2).split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(Math.abs(lines[0].length - lines[1].length)).toBeLessThanOrEqual(10);
+  });
+
+  it('prefers to break after punctuation', () => {
+    expect(balanceLines('When the meeting ended, everybody went straight home', 42, 2))
+      .toBe('When the meeting ended,\neverybody went straight home');
+  });
+
+  it('never uses more than the allowed number of lines', () => {
+    const text = 'one two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen';
+    expect(balanceLines(text, 10, 2).split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,216 @@
+import { TranscriptionSegment, TranscriptionWord } from '@/services/transcriptionService';
+
+export interface SegmentationOptions {
+  maxCharsPerLine?: number;
+  maxLinesPerCue?: number;
+  maxCharsPerSecond?: number;
+  minCueDuration?: number; // seconds
+  maxCueDuration?: number; // seconds
+}
+
+// Defaults follow common broadcast subtitle guidelines
+export const DEFAULT_SEGMENTATION_OPTIONS: Required<SegmentationOptions> = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxCharsPerSecond: 17,
+  minCueDuration: 1,
+  maxCueDuration: 7
+};
+
+const CONJUNCTIONS = new Set([
+  'and', 'but', 'or', 'so', 'because', 'which', 'that', 'when', 'while', 'if', 'although'
+]);
+
+// Lower cost means a more natural place to break
+function breakCost(words: TranscriptionWord[], index: number): number {
+  const word = words[index].text;
+  const next = words[index + 1]?.text.toLowerCase().replace(/[^\p{L}]/gu, '');
+
+  if (/[.!?]["')\]]?$/.test(word)) return 0;
+  if (/[,;:—–-]["')\]]?$/.test(word)) return 1;
+  if (next && CONJUNCTIONS.has(next)) return 2;
+  return 4;
+}
+
+// Words carry their own leading whitespace, so scripts written without spaces stay intact
+export function joinWords(words: TranscriptionWord[]): string {
+  return words.map(word => word.text).join('').trim();
+}
+
+// Give every word a timing, interpolating by character count when the segment has none
+function wordsForSegment(segment: TranscriptionSegment): TranscriptionWord[] {
+  if (segment.words && segment.words.length > 0) return segment.words;
+
+  const tokens = segment.text.trim().split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((sum, token) => sum + token.length + 1, 0);
+  const duration = Math.max(0, (segment.end || segment.start) - segment.start);
+
+  let cursor = segment.start;
+  return tokens.map((token, index) => {
+    const span = totalChars > 0 ? (duration * (token.length + 1)) / totalChars : 0;
+    const word = { text: index > 0 ? ` ${token}` : token, start: cursor, end: cursor + span };
+    cursor += span;
+    return word;
+  });
+}
+
+function fits(words: TranscriptionWord[], options: Required<SegmentationOptions>): boolean {
+  const chars = joinWords(words).length;
+  const duration = words[words.length - 1].end - words[0].start;
+
+  return (
+    chars <= options.maxCharsPerLine * options.maxLinesPerCue &&
+    duration <= options.maxCueDuration
+  );
+}
+
+// Index of the word to break after: the most natural, most balanced break point
+function bestBreak(words: TranscriptionWord[]): number {
+  const totalChars = joinWords(words).length;
+  let bestIndex = 0;
+  let bestScore = Infinity;
+
+  for (let i = 0; i < words.length - 1; i++) {
+    const leftChars = joinWords(words.slice(0, i + 1)).length;
+    const imbalance = Math.abs(leftChars - (totalChars - leftChars - 1)) / totalChars;
+    const score = breakCost(words, i) + imbalance * 4;
+
+    if (score < bestScore) {
+      bestScore = score;
+      bestIndex = i;
+    }
+  }
+
+  return bestIndex;
+}
+
+// Recursively bisect a run of words until every part fits in a cue
+function splitWords(words: TranscriptionWord[], options: Required<SegmentationOptions>): TranscriptionWord[][] {
+  if (words.length <= 1 || fits(words, options)) return [words];
+
+  const bestIndex = bestBreak(words);
+  return [
+    ...splitWords(words.slice(0, bestIndex + 1), options),
+    ...splitWords(words.slice(bestIndex + 1), options)
+  ];
+}
+
+// Split a cue that is too fast to read in two, so less text is on screen at once. The cue's time
+// is shared by character count, as the words were spoken at that rate anyway.
+function splitFastCue(cue: TranscriptionSegment, options: Required<SegmentationOptions>): TranscriptionSegment[] {
+  const words = cue.words && cue.words.length > 1
+    ? cue.words
+    : wordsForSegment({ text: cue.text.replace(/\n/g, ' '), start: cue.start, end: cue.end });
+  if (words.length < 2) return [cue];
+
+  const index = bestBreak(words);
+  const firstWords = words.slice(0, index + 1);
+  const secondWords = words.slice(index + 1);
+  const firstChars = joinWords(firstWords).length;
+  const splitTime = cue.start + ((cue.end - cue.start) * firstChars) / (firstChars + joinWords(secondWords).length);
+
+  return [
+    { text: joinWords(firstWords), start: cue.start, end: splitTime, words: firstWords },
+    { text: joinWords(secondWords), start: splitTime, end: cue.end, words: secondWords }
+  ].map(part => {
+    const split: TranscriptionSegment = {
+      text: balanceLines(part.text, options.maxCharsPerLine, options.maxLinesPerCue),
+      start: part.start,
+      end: part.end
+    };
+    if (cue.words) split.words = part.words;
+    return split;
+  });
+}
+
+/**
+ * Break cue text into at most maxLines lines of similar length, preferring punctuation boundaries
+ */
+export function balanceLines(text: string, maxCharsPerLine: number, maxLines: number): string {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  if (text.length <= maxCharsPerLine || tokens.length < 2) return text.trim();
+
+  const lineCount = Math.min(maxLines, Math.ceil(text.length / maxCharsPerLine), tokens.length);
+  const target = text.length / lineCount;
+  const words = tokens.map(token => ({ text: token, start: 0, end: 0 }));
+
+  // best[k][i]: minimal cost to lay out the first i tokens on k lines
+  const best: number[][] = Array.from({ length: lineCount + 1 }, () => Array(tokens.length + 1).fill(Infinity));
+  const choice: number[][] = Array.from({ length: lineCount + 1 }, () => Array(tokens.length + 1).fill(0));
+  best[0][0] = 0;
+
+  for (let k = 1; k <= lineCount; k++) {
+    for (let i = 1; i <= tokens.length; i++) {
+      for (let j = k - 1; j < i; j++) {
+        if (best[k - 1][j] === Infinity) continue;
+
+        const length = tokens.slice(j, i).join(' ').length;
+        const overflow = length > maxCharsPerLine ? (length - maxCharsPerLine) * 100 : 0;
+        const punctuation = i < tokens.length ? breakCost(words, i - 1) * 4 : 0;
+        const cost = best[k - 1][j] + (length - target) ** 2 + overflow + punctuation;
+
+        if (cost < best[k][i]) {
+          best[k][i] = cost;
+          choice[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  let end = tokens.length;
+  for (let k = lineCount; k > 0; k--) {
+    const start = choice[k][end];
+    lines.unshift(tokens.slice(start, end).join(' '));
+    end = start;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Re-segment transcription output into readable cues: split long segments on sentence and clause
+ * boundaries, insert balanced line breaks, and stretch cues to meet reading-speed and minimum
+ * duration limits without overlapping the next cue; cues that still read too fast are split.
+ * Word timings are used when available.
+ */
+export function resegmentCues(
+  segments: TranscriptionSegment[],
+  options: SegmentationOptions = {}
+): TranscriptionSegment[] {
+  const config = { ...DEFAULT_SEGMENTATION_OPTIONS, ...options };
+
+  const cues: TranscriptionSegment[] = segments
+    .filter(segment => segment.text.trim().length > 0)
+    .flatMap(segment => {
+      const words = wordsForSegment(segment);
+      if (words.length === 0) return [];
+
+      return splitWords(words, config).map(group => {
+        const cue: TranscriptionSegment = {
+          text: balanceLines(joinWords(group), config.maxCharsPerLine, config.maxLinesPerCue),
+          start: group[0].start,
+          end: group[group.length - 1].end
+        };
+        if (segment.words) cue.words = group;
+        return cue;
+      });
+    });
+
+  // Extend short or too-fast cues into the gap before the next one, splitting those that can't
+  // be extended far enough
+  return cues.flatMap((cue, index) => {
+    const next = cues[index + 1];
+    const readingTime = cue.text.replace(/\n/g, ' ').length / config.maxCharsPerSecond;
+    const desired = Math.min(
+      Math.max(cue.end - cue.start, readingTime, config.minCueDuration),
+      config.maxCueDuration
+    );
+    const limit = next ? next.start : Infinity;
+
+    cue.end = Math.max(cue.end, Math.min(cue.start + desired, limit));
+
+    const charsPerSecond = cue.text.replace(/\n/g, ' ').length / (cue.end - cue.start);
+    return charsPerSecond > config.maxCharsPerSecond ? splitFastCue(cue, config) : [cue];
+  });
+}
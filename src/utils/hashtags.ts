@@ -0,0 +1,28 @@
+const HASHTAG_CHARACTERS = /[\p{L}\p{N}]/u;
+
+// Elided articles and prepositions written with an apostrophe, e.g. French "l'été" or Italian "dell'arte"
+const ELISIONS: Record<string, string[]> = {
+  fr: ['c', 'd', 'j', 'l', 'm', 'n', 's', 't', 'qu', 'jusqu', 'lorsqu', 'puisqu'],
+  it: ['c', 'd', 'l', 'un', 'all', 'dall', 'dell', 'nell', 'sull', 'quell']
+};
+
+/**
+ * Turn a word or phrase into hashtag text (without the #) for the given language. Accented
+ * letters are kept: the text is NFC-normalized so decomposed accents aren't dropped as marks,
+ * lowercased with the language's rules, and elided articles are removed before words are joined.
+ */
+export function normalizeHashtag(text: string, language = 'en', allowedCharacters: RegExp = HASHTAG_CHARACTERS): string {
+  const elisions = ELISIONS[language];
+  const words = text
+    .normalize('NFC')
+    .toLocaleLowerCase(language)
+    .split(/\s+/)
+    .map(word => {
+      const apostrophe = word.search(/['’]/);
+      return elisions && apostrophe > 0 && elisions.includes(word.slice(0, apostrophe))
+        ? word.slice(apostrophe + 1)
+        : word;
+    });
+
+  return Array.from(words.join('')).filter(char => allowedCharacters.test(char)).join('');
+}
@@ -0,0 +1,13 @@
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * English name for an ISO 639 language code, e.g. 'es' -> 'Spanish'. Whisper can detect about
+ * a hundred languages, far more than the app lists, so names come from the browser.
+ */
+export function getLanguageName(code: string): string {
+  try {
+    return displayNames.of(code) || code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { smartTruncate } from './metadataConstraints';
+
+const hasLoneSurrogate = (text: string) => /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(text);
+
+describe('smartTruncate', () => {
+  it('returns text that fits unchanged, including text exactly at the limit', () => {
+    expect(smartTruncate('Hello world', 11)).toBe('Hello world');
+    expect(smartTruncate('Hello world', 50, 'sentence')).toBe('Hello world');
+  });
+
+  it('cuts at the last word boundary and adds an ellipsis', () => {
+    expect(smartTruncate('The quick brown fox jumps', 15)).toBe('The quick…');
+  });
+
+  it('keeps the last word when it ends exactly where the ellipsis starts', () => {
+    expect(smartTruncate('Hello world again', 12)).toBe('Hello world…');
+  });
+
+  it('cuts mid-word when the last space would drop more than half the text', () => {
+    expect(smartTruncate('Supercalifragilistic', 10)).toBe('Supercali…');
+    expect(smartTruncate('A verylongwordthatgoesonandon', 12)).toBe('A verylongw…');
+  });
+
+  it('drops trailing punctuation before the ellipsis and skips it after a full stop', () => {
+    expect(smartTruncate('Hello, world and more', 8)).toBe('Hello…');
+    expect(smartTruncate('Stop. Go now please', 8)).toBe('Stop.');
+  });
+
+  it('hard-cuts without an ellipsis when the limit leaves no room for one', () => {
+    expect(smartTruncate('Hello', 1)).toBe('H');
+    expect(smartTruncate('Hello', 0)).toBe('');
+  });
+
+  it('ends after the last complete sentence that fits', () => {
+    expect(smartTruncate('First one. Second sentence here. Third one.', 35, 'sentence'))
+      .toBe('First one. Second sentence here.');
+    expect(smartTruncate('Ends here. Next', 10, 'sentence')).toBe('Ends here.');
+  });
+
+  it('falls back to a word cut when the sentences that fit are less than half the limit', () => {
+    expect(smartTruncate('Hi. This is one very long sentence without an end', 30, 'sentence'))
+      .toBe('Hi. This is one very long…');
+  });
+
+  it('ignores punctuation that is not followed by a space', () => {
+    expect(smartTruncate('Version 2.0 ships with many new features', 20, 'sentence')).toBe('Version 2.0 ships…');
+  });
+
+  it('never splits an emoji', () => {
+    expect(smartTruncate('😀😀😀😀 more', 4)).toBe('😀…');
+    expect(smartTruncate('😀abc', 1)).toBe('');
+  });
+
+  it('stays within the limit at every length', () => {
+    const text = 'Tips & tricks 😀 for brewing better coffee at home. Grind fresh, weigh your beans! Enjoy…';
+
+    for (let maxLength = 0; maxLength <= text.length + 1; maxLength++) {
+      for (const boundary of ['word', 'sentence'] as const) {
+        const result = smartTruncate(text, maxLength, boundary);
+        expect(result.length).toBeLessThanOrEqual(maxLength);
+        expect(hasLoneSurrogate(result)).toBe(false);
+        expect(text.startsWith(result.replace(/…$/, ''))).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,222 @@
+import { getPlatform, PlatformProfile } from '@/services/platformRegistry';
+
+export type ConstraintSeverity = 'error' | 'warning' | 'info';
+
+export interface ConstraintViolation {
+  field: 'title' | 'description' | 'hashtags';
+  severity: ConstraintSeverity; // error: the platform rejects or cuts it; warning: allowed but hurts reach; info: auto-fixed
+  message: string;
+}
+
+export interface ConstrainedMetadata {
+  platform: string;
+  title: string;
+  description: string;
+  hashtags: string[];
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/i;
+const ELLIPSIS = '…';
+
+const withHash = (tag: string) => (tag.startsWith('#') ? tag : `#${tag}`);
+
+// Length of the hashtag line when it is posted after the description
+const hashtagLength = (hashtags: string[]) =>
+  hashtags.length > 0 ? hashtags.map(withHash).join(' ').length + 1 : 0;
+
+const descriptionLength = (metadata: ConstrainedMetadata, profile: PlatformProfile) =>
+  metadata.description.length + (profile.description.hashtagsCountTowardLimit ? hashtagLength(metadata.hashtags) : 0);
+
+const invalidHashtags = (hashtags: string[], profile: PlatformProfile) =>
+  hashtags.filter(tag => {
+    const chars = Array.from(tag.replace(/^#/, ''));
+    return chars.length === 0 || chars.some(char => !profile.hashtags.allowedCharacters.test(char));
+  });
+
+// Cut at a code unit boundary without splitting an emoji's surrogate pair
+const safeSlice = (text: string, end: number) => {
+  const code = text.charCodeAt(end - 1);
+  return text.slice(0, code >= 0xd800 && code <= 0xdbff ? end - 1 : end);
+};
+
+/**
+ * Shorten text to fit maxLength. With 'sentence', ends after the last complete sentence that
+ * fits; otherwise (or when that would drop more than half the text) cuts at the last word
+ * boundary and adds an ellipsis. Text that already fits is returned unchanged.
+ */
+export function smartTruncate(text: string, maxLength: number, boundary: 'word' | 'sentence' = 'word'): string {
+  if (text.length <= maxLength) return text;
+  if (maxLength <= ELLIPSIS.length) return safeSlice(text, maxLength);
+
+  const minimum = Math.floor(maxLength / 2);
+
+  if (boundary === 'sentence') {
+    const window = text.slice(0, maxLength + 1);
+    let end = -1;
+    for (const match of window.matchAll(/[.!?…](?=\s|$)/g)) {
+      if (match.index! < maxLength) end = match.index! + 1;
+    }
+    if (end >= minimum) return text.slice(0, end).trimEnd();
+  }
+
+  const budget = maxLength - ELLIPSIS.length;
+  const cut = safeSlice(text, budget);
+  const space = text.charAt(budget) === '' || /\s/.test(text.charAt(budget)) ? budget : cut.search(/\s\S*$/);
+  const words = space >= minimum ? cut.slice(0, space) : cut;
+
+  const trimmed = words.replace(/[\s,;:–—-]+$/, '');
+  return /[.!?…]$/.test(trimmed) ? trimmed : trimmed + ELLIPSIS;
+}
+
+/**
+ * Check metadata against its platform's registered limits. Unregistered platforms have no
+ * constraints and always pass.
+ */
+export function validatePlatformMetadata(metadata: ConstrainedMetadata): ConstraintViolation[] {
+  const profile = getPlatform(metadata.platform);
+  if (!profile) return [];
+
+  const violations: ConstraintViolation[] = [];
+
+  if (metadata.title.length > profile.title.maxLength) {
+    violations.push({
+      field: 'title',
+      severity: 'error',
+      message: `Title is ${metadata.title.length} characters; ${profile.label} allows ${profile.title.maxLength}.`
+    });
+  }
+
+  const length = descriptionLength(metadata, profile);
+  if (length > profile.description.maxLength) {
+    violations.push({
+      field: 'description',
+      severity: 'error',
+      message: `Description${profile.description.hashtagsCountTowardLimit ? ' with hashtags' : ''} is ${length} characters; ${profile.label} allows ${profile.description.maxLength}.`
+    });
+  }
+
+  if (profile.forbiddenCharacters) {
+    for (const field of ['title', 'description'] as const) {
+      if (profile.forbiddenCharacters.test(metadata[field])) {
+        violations.push({
+          field,
+          severity: 'error',
+          message: `${field === 'title' ? 'Title' : 'Description'} contains characters ${profile.label} doesn't allow (${profile.forbiddenCharacters.source}).`
+        });
+      }
+    }
+  }
+
+  if (metadata.hashtags.length > profile.hashtags.maxCount) {
+    violations.push({
+      field: 'hashtags',
+      severity: 'error',
+      message: `${metadata.hashtags.length} hashtags; ${profile.label} allows ${profile.hashtags.maxCount}.`
+    });
+  } else if (metadata.hashtags.length > profile.hashtags.recommendedCount) {
+    violations.push({
+      field: 'hashtags',
+      severity: 'warning',
+      message: `${metadata.hashtags.length} hashtags; ${profile.hashtags.recommendedCount} or fewer work best on ${profile.label}.`
+    });
+  }
+
+  const invalid = invalidHashtags(metadata.hashtags, profile);
+  if (invalid.length > 0) {
+    violations.push({
+      field: 'hashtags',
+      severity: 'error',
+      message: `Hashtags with unsupported characters: ${invalid.map(withHash).join(' ')}.`
+    });
+  }
+
+  if (profile.links !== 'allowed' && URL_PATTERN.test(metadata.description)) {
+    violations.push({
+      field: 'description',
+      severity: 'warning',
+      message: profile.links === 'not-clickable'
+        ? `Links in the description aren't clickable on ${profile.label}.`
+        : `Links in the description reduce reach on ${profile.label}.`
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Fix what can be fixed automatically: strip forbidden and unsupported characters, drop hashtags
+ * over the limit and truncate the title on a word boundary and the description on a sentence
+ * boundary. Returns the fitted metadata with info notes for each change plus whatever problems
+ * remain.
+ */
+export function enforcePlatformConstraints<T extends ConstrainedMetadata>(
+  metadata: T
+): { metadata: T; violations: ConstraintViolation[] } {
+  const profile = getPlatform(metadata.platform);
+  if (!profile) return { metadata, violations: [] };
+
+  const notes: ConstraintViolation[] = [];
+  let { title, description } = metadata;
+
+  if (profile.forbiddenCharacters) {
+    const forbidden = new RegExp(profile.forbiddenCharacters.source, `${profile.forbiddenCharacters.flags.replace('g', '')}g`);
+    if (profile.forbiddenCharacters.test(title)) {
+      title = title.replace(forbidden, '');
+      notes.push({ field: 'title', severity: 'info', message: `Removed characters ${profile.label} doesn't allow.` });
+    }
+    if (profile.forbiddenCharacters.test(description)) {
+      description = description.replace(forbidden, '');
+      notes.push({ field: 'description', severity: 'info', message: `Removed characters ${profile.label} doesn't allow.` });
+    }
+  }
+
+  let hashtags = metadata.hashtags
+    .map(tag => {
+      const prefix = tag.startsWith('#') ? '#' : '';
+      return prefix + Array.from(tag.replace(/^#/, '')).filter(char => profile.hashtags.allowedCharacters.test(char)).join('');
+    })
+    .filter(tag => tag.replace(/^#/, '').length > 0);
+
+  if (hashtags.length > profile.hashtags.maxCount) {
+    notes.push({
+      field: 'hashtags',
+      severity: 'info',
+      message: `Kept the first ${profile.hashtags.maxCount} of ${hashtags.length} hashtags.`
+    });
+    hashtags = hashtags.slice(0, profile.hashtags.maxCount);
+  }
+
+  if (title.length > profile.title.maxLength) {
+    title = smartTruncate(title, profile.title.maxLength, 'word');
+    notes.push({ field: 'title', severity: 'info', message: `Title shortened to ${profile.title.maxLength} characters.` });
+  }
+
+  if (profile.description.hashtagsCountTowardLimit) {
+    // Never let hashtags take more than half of a shared caption limit
+    const droppedFrom = hashtags.length;
+    while (hashtags.length > 0 && hashtagLength(hashtags) > profile.description.maxLength / 2) {
+      hashtags = hashtags.slice(0, -1);
+    }
+    if (hashtags.length < droppedFrom) {
+      notes.push({
+        field: 'hashtags',
+        severity: 'info',
+        message: `Kept ${hashtags.length} hashtags to leave room for the caption.`
+      });
+    }
+  }
+
+  const descriptionLimit = profile.description.maxLength -
+    (profile.description.hashtagsCountTowardLimit ? hashtagLength(hashtags) : 0);
+  if (description.length > descriptionLimit) {
+    description = smartTruncate(description, descriptionLimit, 'sentence');
+    notes.push({
+      field: 'description',
+      severity: 'info',
+      message: `Description shortened to ${descriptionLimit} characters${profile.description.hashtagsCountTowardLimit ? ' to fit the hashtags' : ''}.`
+    });
+  }
+
+  const fitted = { ...metadata, title, description, hashtags };
+  return { metadata: fitted, violations: [...notes, ...validatePlatformMetadata(fitted)] };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { SRTGenerator, VTTCue } from './srtGenerator';
+
+const segments: TranscriptionSegment[] = [
+  { text: 'Hello, world!', start: 0, end: 1.5 },
+  { text: 'Timings keep their milliseconds', start: 1.501, end: 3.999 },
+  { text: 'An hour in', start: 3661.25, end: 3665 }
+];
+
+describe('SRT', () => {
+  it('formats cues with numbered blocks and comma timestamps', () => {
+    expect(SRTGenerator.generateSRT(segments.slice(0, 2))).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nHello, world!\n\n' +
+      '2\n00:00:01,501 --> 00:00:03,999\nTimings keep their milliseconds\n'
+    );
+  });
+
+  it('round-trips text and timing', () => {
+    expect(SRTGenerator.parseSRT(SRTGenerator.generateSRT(segments))).toEqual(segments);
+  });
+
+  it('joins multi-line cue text with spaces when parsing', () => {
+    const srt = SRTGenerator.generateSRT([{ text: 'First line\nsecond line', start: 0, end: 2 }]);
+    expect(SRTGenerator.parseSRT(srt)).toEqual([{ text: 'First line second line', start: 0, end: 2 }]);
+  });
+
+  it('skips empty segments and renumbers the rest', () => {
+    const srt = SRTGenerator.generateSRT([
+      { text: ' ', start: 0, end: 1 },
+      { text: 'Kept', start: 1, end: 2 }
+    ]);
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:02,000\nKept\n');
+  });
+
+  it('reports malformed, reversed and overlapping blocks', () => {
+    const srt = [
+      '1\n00:00:01,000 --> 00:00:02,000\nFine',
+      'x\n00:00:03,000 --> 00:00:02,500\nBackwards',
+      '3\n00:00:02,000 --> 00:00:04,000\nOverlaps',
+      '4\nnot a timestamp\nBroken'
+    ].join('\n\n');
+
+    expect(SRTGenerator.validateSRT(srt)).toEqual({
+      valid: false,
+      errors: [
+        'Block 2: Invalid index format',
+        'Block 2: End time must be after start time',
+        'Block 3: Overlaps the previous subtitle',
+        'Block 4: Invalid timestamp format'
+      ]
+    });
+    expect(SRTGenerator.validateSRT(SRTGenerator.generateSRT(segments))).toEqual({ valid: true, errors: [] });
+  });
+});
+
+describe('WebVTT', () => {
+  it('round-trips text, timing, identifiers and cue settings', () => {
+    const cues: VTTCue[] = [
+      { text: 'Hello, world!', start: 0, end: 1.5, identifier: 'intro' },
+      { text: 'Up top', start: 1.501, end: 3.999, identifier: '2', settings: { position: 50, line: 0, align: 'center' } },
+      { text: 'An hour in', start: 3661.25, end: 3665, identifier: '3', settings: { line: '90%' } }
+    ];
+
+    expect(SRTGenerator.parseVTT(SRTGenerator.generateVTT(cues))).toEqual(cues);
+  });
+
+  it('escapes reserved characters and reads them back as the original text', () => {
+    const text = 'Tom & Jerry <3 use <b> literally';
+    const vtt = SRTGenerator.generateVTT([{ text, start: 0, end: 2 }]);
+
+    expect(vtt).toContain('Tom &amp; Jerry &lt;3 use &lt;b&gt; literally');
+    expect(SRTGenerator.parseVTT(vtt)[0].text).toBe(text);
+  });
+
+  it('writes notes into the header and omits identifiers when asked', () => {
+    const vtt = SRTGenerator.generateVTT([{ text: 'Hi', start: 0, end: 1 }], {
+      includeIdentifiers: false,
+      notes: ['Generated subtitles']
+    });
+
+    expect(vtt).toBe('WEBVTT\n\nNOTE Generated subtitles\n\n00:00:00.000 --> 00:00:01.000\nHi\n');
+  });
+
+  it('parses files with a BOM, CRLF line endings, short timestamps, markup and metadata blocks', () => {
+    const vtt = [
+      '\uFEFFWEBVTT - Example',
+      'STYLE\n::cue { color: yellow }',
+      'NOTE This is a comment',
+      '00:01.000 --> 00:02.500\n<v Roger>Hello <i>there</i>&nbsp;friend',
+      'second\n00:03.000 --> 00:04.000 align:start\n<c.loud>Two</c>\nlines'
+    ].join('\r\n\r\n');
+
+    expect(SRTGenerator.parseVTT(vtt)).toEqual([
+      { text: 'Hello there\u00A0friend', start: 1, end: 2.5 },
+      { text: 'Two lines', start: 3, end: 4, identifier: 'second', settings: { align: 'start' } }
+    ]);
+  });
+
+  it('rejects content without a WEBVTT header', () => {
+    expect(() => SRTGenerator.parseVTT('1\n00:00:00,000 --> 00:00:01,000\nHi')).toThrow(/missing WEBVTT header/);
+  });
+});
@@ -1,4 +1,5 @@
 import { TranscriptionSegment } from '@/services/transcriptionService';
+import { resegmentCues, SegmentationOptions } from '@/utils/cueSegmenter';
 
 export interface SRTEntry {
   index: number;
@@ -7,15 +8,36 @@ export interface SRTEntry {
   text: string;
 }
 
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface VTTCueSettings {
+  position?: number; // percentage of the video width
+  line?: number | string; // line number or percentage (e.g. '90%')
+  align?: 'start' | 'center' | 'end' | 'left' | 'right';
+}
+
+export interface VTTCue extends TranscriptionSegment {
+  identifier?: string;
+  settings?: VTTCueSettings;
+}
+
+export interface VTTOptions {
+  includeIdentifiers?: boolean;
+  settings?: VTTCueSettings;
+  notes?: string[];
+}
+
 export class SRTGenerator {
   /**
    * Convert seconds to SRT time format (HH:MM:SS,mmm)
    */
   private static secondsToSRTTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const milliseconds = Math.floor((seconds % 1) * 1000);
+    // Round to whole milliseconds first: 1.001 % 1 is 0.000999..., which would floor to 0
+    const totalMilliseconds = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMilliseconds / 3600000);
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+    const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+    const milliseconds = totalMilliseconds % 1000;
 
     return `${hours.toString().padStart(2, '0')}:${minutes
       .toString()
@@ -25,10 +47,19 @@ export class SRTGenerator {
   }
 
   /**
-   * Generate SRT content from transcription segments
+   * Convert seconds to WebVTT time format (HH:MM:SS.mmm)
    */
-  static generateSRT(segments: TranscriptionSegment[]): string {
-    const srtEntries = segments
+  private static secondsToVTTTime(seconds: number): string {
+    return this.secondsToSRTTime(seconds).replace(',', '.');
+  }
+
+  /**
+   * Generate SRT content from transcription segments. When segmentation options are given,
+   * segments are first re-split into readable cues (see resegmentCues).
+   */
+  static generateSRT(segments: TranscriptionSegment[], segmentation?: SegmentationOptions): string {
+    const cues = segmentation ? resegmentCues(segments, segmentation) : segments;
+    const srtEntries = cues
       .filter(segment => segment.text.trim().length > 0)
       .map((segment, index) => ({
         index: index + 1,
@@ -44,6 +75,66 @@ export class SRTGenerator {
       .join('\n');
   }
 
+  /**
+   * Generate WebVTT content from transcription segments
+   */
+  static generateVTT(segments: Array<TranscriptionSegment | VTTCue>, options: VTTOptions = {}): string {
+    const { includeIdentifiers = true, settings, notes = [] } = options;
+
+    const header = ['WEBVTT', ...notes.map(note => `NOTE ${note.trim()}`)];
+
+    const cues = segments
+      .filter(segment => segment.text.trim().length > 0)
+      .map((segment, index) => {
+        const cue = segment as VTTCue;
+        const identifier = cue.identifier || (includeIdentifiers ? `${index + 1}` : '');
+        const cueSettings = this.formatVTTSettings({ ...settings, ...cue.settings });
+        const timing = `${this.secondsToVTTTime(segment.start)} --> ${this.secondsToVTTTime(segment.end || segment.start + 2)}`;
+
+        return [
+          ...(identifier ? [identifier] : []),
+          cueSettings ? `${timing} ${cueSettings}` : timing,
+          this.escapeVTTText(segment.text.trim())
+        ].join('\n');
+      });
+
+    return [...header, ...cues].join('\n\n') + '\n';
+  }
+
+  /**
+   * Escape the characters WebVTT reserves for tags and entities in cue text
+   */
+  private static escapeVTTText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Reduce cue text to plain text: drop <v>, <c>, <i>, timestamp and other tags, then decode
+   * entities. Tags go first so an escaped "&lt;b&gt;" survives as literal text.
+   */
+  private static unescapeVTTText(text: string): string {
+    return text
+      .replace(/<[^>]*>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&nbsp;/g, '\u00A0')
+      .replace(/&lrm;|&rlm;/g, '')
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Serialize cue settings into the "key:value" form used on the timing line
+   */
+  private static formatVTTSettings(settings: VTTCueSettings = {}): string {
+    const parts: string[] = [];
+
+    if (settings.position !== undefined) parts.push(`position:${settings.position}%`);
+    if (settings.line !== undefined) parts.push(`line:${settings.line}`);
+    if (settings.align) parts.push(`align:${settings.align}`);
+
+    return parts.join(' ');
+  }
+
   /**
    * Generate SRT from plain text with estimated timing
    */
@@ -102,19 +193,36 @@ export class SRTGenerator {
       });
     }
 
-    return this.generateSRT(segments);
+    return this.generateSRT(segments, {
+      maxCharsPerLine,
+      maxLinesPerCue: maxLinesPerSubtitle
+    });
   }
 
   /**
    * Download SRT file
    */
   static downloadSRT(content: string, filename: string = 'subtitles.srt') {
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    this.downloadFile(content, filename, '.srt', 'text/plain;charset=utf-8');
+  }
+
+  /**
+   * Download WebVTT file
+   */
+  static downloadVTT(content: string, filename: string = 'subtitles.vtt') {
+    this.downloadFile(content, filename, '.vtt', 'text/vtt;charset=utf-8');
+  }
+
+  /**
+   * Trigger a browser download for subtitle content, appending the extension if missing
+   */
+  static downloadFile(content: string, filename: string, extension: string, mimeType: string) {
+    const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     
     const link = document.createElement('a');
     link.href = url;
-    link.download = filename.endsWith('.srt') ? filename : `${filename}.srt`;
+    link.download = filename.endsWith(extension) ? filename : `${filename}${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -150,6 +258,81 @@ export class SRTGenerator {
     return segments;
   }
 
+  /**
+   * Parse WebVTT content back to cues. NOTE, STYLE and REGION blocks are skipped, and cue text
+   * is returned as plain text without markup.
+   */
+  static parseVTT(vttContent: string): VTTCue[] {
+    const cues: VTTCue[] = [];
+    const blocks = vttContent.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').trim().split(/\n\s*\n/);
+
+    if (!blocks[0]?.startsWith('WEBVTT')) {
+      throw new Error('Invalid WebVTT content: missing WEBVTT header');
+    }
+
+    for (const block of blocks.slice(1)) {
+      const lines = block.trim().split('\n');
+      if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1 || timingIndex > 1) continue;
+
+      const timeMatch = lines[timingIndex].match(
+        /^((?:\d{2,}:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d{2,}:)?\d{2}:\d{2}\.\d{3})(.*)$/
+      );
+      if (!timeMatch) continue;
+
+      const cue: VTTCue = {
+        text: this.unescapeVTTText(lines.slice(timingIndex + 1).join(' ')).trim(),
+        start: this.vttTimeToSeconds(timeMatch[1]),
+        end: this.vttTimeToSeconds(timeMatch[2])
+      };
+
+      if (timingIndex === 1) {
+        cue.identifier = lines[0].trim();
+      }
+
+      const settings = this.parseVTTSettings(timeMatch[3]);
+      if (Object.keys(settings).length > 0) {
+        cue.settings = settings;
+      }
+
+      cues.push(cue);
+    }
+
+    return cues;
+  }
+
+  private static parseVTTSettings(settingsString: string): VTTCueSettings {
+    const settings: VTTCueSettings = {};
+
+    for (const token of settingsString.trim().split(/\s+/)) {
+      const [key, value] = token.split(':');
+      if (!value) continue;
+
+      if (key === 'position') {
+        settings.position = parseFloat(value);
+      } else if (key === 'line') {
+        settings.line = /^-?\d+$/.test(value) ? Number(value) : value;
+      } else if (key === 'align') {
+        settings.align = value as VTTCueSettings['align'];
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Convert WebVTT time format (hours optional) to seconds
+   */
+  private static vttTimeToSeconds(timeString: string): number {
+    const [time, milliseconds] = timeString.split('.');
+    const parts = time.split(':').map(Number);
+    const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+
+    return hours * 3600 + minutes * 60 + seconds + Number(milliseconds) / 1000;
+  }
+
   /**
    * Convert SRT time format to seconds
    */
@@ -166,6 +349,7 @@ export class SRTGenerator {
   static validateSRT(srtContent: string): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
     const blocks = srtContent.trim().split(/\n\s*\n/);
+    let previousEnd = -Infinity;
 
     for (let i = 0; i < blocks.length; i++) {
       const block = blocks[i].trim();
@@ -184,6 +368,16 @@ export class SRTGenerator {
       // Check timestamp format
       if (!/^\d{2}:\d{2}:\d{2},\d{3} --> \d{2}:\d{2}:\d{2},\d{3}$/.test(lines[1])) {
         errors.push(`Block ${i + 1}: Invalid timestamp format`);
+      } else {
+        // Check timing order
+        const [start, end] = lines[1].split(' --> ').map(time => this.srtTimeToSeconds(time));
+        if (end <= start) {
+          errors.push(`Block ${i + 1}: End time must be after start time`);
+        }
+        if (start < previousEnd) {
+          errors.push(`Block ${i + 1}: Overlaps the previous subtitle`);
+        }
+        previousEnd = Math.max(previousEnd, end);
       }
 
       // Check if text exists
@@ -0,0 +1,74 @@
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { SRTGenerator, SubtitleFormat } from '@/utils/srtGenerator';
+import { ASSGenerator, ASSStyle } from '@/utils/assGenerator';
+import { resegmentCues, SegmentationOptions } from '@/utils/cueSegmenter';
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat; label: string }[] = [
+  { value: 'srt', label: 'SRT' },
+  { value: 'vtt', label: 'WebVTT' },
+  { value: 'ass', label: 'ASS (styled)' }
+];
+
+/**
+ * Render segments in the requested subtitle format. Long Whisper chunks are split into
+ * readable cues first unless resegmentation is disabled. assStyle only applies to ASS output.
+ */
+export function renderSubtitles(
+  segments: TranscriptionSegment[],
+  format: SubtitleFormat,
+  options: { title?: string; segmentation?: SegmentationOptions | false; assStyle?: ASSStyle } = {}
+): string {
+  const { title, segmentation = {}, assStyle } = options;
+  const cues = segmentation === false ? segments : resegmentCues(segments, segmentation);
+
+  switch (format) {
+    case 'vtt':
+      return SRTGenerator.generateVTT(cues);
+    case 'ass':
+      return ASSGenerator.generateASS(cues, {
+        ...(title ? { title } : {}),
+        ...(assStyle ? { styles: [assStyle] } : {})
+      });
+    default:
+      return SRTGenerator.generateSRT(cues);
+  }
+}
+
+/**
+ * Render and download segments as a subtitle file
+ */
+export function downloadSubtitles(
+  segments: TranscriptionSegment[],
+  format: SubtitleFormat,
+  filename: string = 'subtitles',
+  segmentation: SegmentationOptions | false = {},
+  assStyle?: ASSStyle
+) {
+  const content = renderSubtitles(segments, format, { title: filename, segmentation, assStyle });
+
+  switch (format) {
+    case 'vtt':
+      SRTGenerator.downloadVTT(content, filename);
+      break;
+    case 'ass':
+      ASSGenerator.downloadASS(content, filename);
+      break;
+    default:
+      SRTGenerator.downloadSRT(content, filename);
+  }
+}
+
+/**
+ * Download one subtitle file per language, named `<filename>.<language>.<ext>` so players
+ * pick up each file as a separate track
+ */
+export function downloadSubtitleTracks(
+  tracks: { language: string; segments: TranscriptionSegment[] }[],
+  format: SubtitleFormat,
+  filename: string = 'subtitles',
+  assStyle?: ASSStyle
+) {
+  for (const track of tracks) {
+    downloadSubtitles(track.segments, format, `${filename}.${track.language}`, {}, assStyle);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { compileTemplate, renderTemplate, TemplateError, validateTemplate } from './templateEngine';
+
+const parseError = (source: string): TemplateError => {
+  try {
+    compileTemplate(source);
+  } catch (error) {
+    if (error instanceof TemplateError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${source}" to fail to parse`);
+};
+
+describe('template parse errors', () => {
+  it.each([
+    ['{{#with topic}}{{/with}}', 'Unknown block "#with"', 0],
+    ['Intro {{#if}}x{{/if}}', '"#if" takes exactly one variable', 6],
+    ['{{#each chapters extra}}{{/each}}', '"#each" takes exactly one variable', 0],
+    ['{{#if 1topic}}{{/if}}', 'Invalid variable name "1topic"', 0],
+    ['Hi {{creator name}}', 'Invalid variable name "creator name"', 3],
+    ['{{topic.}}', 'Invalid variable name "topic."', 0],
+    ['{{topic | shout}}', 'Unknown filter "shout"', 0],
+    ['text {{else}}', '"else" without a matching "#if" or "#unless"', 5],
+    ['{{#each chapters}}{{else}}{{/each}}', '"else" without a matching "#if" or "#unless"', 18],
+    ['{{#if a}}1{{else}}2{{else}}3{{/if}}', '"else" without a matching "#if" or "#unless"', 19],
+    ['done {{/if}}', '"/if" without a matching "#if"', 5],
+    ['{{#if a}}{{#each b}}{{/if}}{{/each}}', 'Expected "/each" but found "/if"', 20],
+    ['Start\n{{#unless keywords}}never closed', '"#unless" is never closed', 6]
+  ])('rejects %j', (source, message, position) => {
+    const error = parseError(source);
+    expect(error.message).toBe(message);
+    expect(error.position).toBe(position);
+  });
+
+  it('reports the line of the offending tag', () => {
+    expect(validateTemplate('Title\n\n{{topic | loud}}')).toBe('Line 3: Unknown filter "loud"');
+    expect(validateTemplate('{{#if summary}}\n{{summary}}\n{{/if}}')).toBeNull();
+  });
+});
+
+describe('template rendering', () => {
+  it('fills variables, dotted paths and filters', () => {
+    expect(renderTemplate('{{creator | handle}} on {{ video.topic | title }}: {{topic | hashtag}}', {
+      creator: 'Jane Doe',
+      topic: 'café tips',
+      video: { topic: 'home brewing' }
+    })).toBe('janedoe on Home Brewing: #cafétips');
+  });
+
+  it('renders #if, #unless and else branches by truthiness', () => {
+    const render = compileTemplate('{{#if summary}}S{{else}}no summary{{/if}}|{{#unless keywords}}no keywords{{/unless}}');
+
+    expect(render({ summary: 'Text', keywords: ['a'] })).toBe('S|');
+    expect(render({ summary: '  ', keywords: [] })).toBe('no summary|no keywords');
+  });
+
+  it('loops with #each, exposing the item, its position and the outer context', () => {
+    expect(renderTemplate('{{#each chapters}}{{@number}}. {{time}} {{title}} ({{topic}}){{#unless @last}}\n{{/unless}}{{/each}}', {
+      topic: 'Intro',
+      chapters: [{ time: '0:00', title: 'Start' }, { time: '1:30', title: 'Middle', topic: 'Own' }]
+    })).toBe('1. 0:00 Start (Intro)\n2. 1:30 Middle (Own)');
+    expect(renderTemplate('{{#each tags}}[{{this}}]{{/each}}', { tags: ['a', 'b'] })).toBe('[a][b]');
+  });
+
+  it('renders lists as comma-separated values and missing values as empty', () => {
+    expect(renderTemplate('{{keywords}}|{{missing}}|{{lines}}', {
+      keywords: ['one', '', 'two'],
+      lines: [{ text: 'first' }, { text: 'second' }]
+    })).toBe('one, two||first\nsecond');
+  });
+});
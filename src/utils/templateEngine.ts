@@ -0,0 +1,228 @@
+/**
+ * Small Handlebars-style template engine for metadata templates.
+ *
+ *   {{topic}}                     variable (dotted paths like {{chapter.title}} work too)
+ *   {{creator | handle}}          variable passed through a filter
+ *   {{#if summary}}…{{else}}…{{/if}}
+ *   {{#unless keywords}}…{{/unless}}
+ *   {{#each chapters}}{{time}} {{title}}{{/each}}
+ *
+ * Inside #each, names resolve against the current item first, then the outer context.
+ * {{this}} is the item itself; {{@index}}, {{@number}}, {{@first}} and {{@last}} describe its position.
+ * Lists render as comma-separated values; list items that are objects render their `text` field, one per line.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+export class TemplateError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: string[] }
+  | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+const FILTERS: Record<string, (value: string) => string> = {
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  title: value => value.replace(/\p{L}[\p{L}']*/gu, word => word.charAt(0).toUpperCase() + word.slice(1)),
+  hashtag: value => `#${value.normalize('NFC').replace(/[^\p{L}\p{N}]/gu, '')}`,
+  handle: value => value.toLowerCase().replace(/\s+/g, ''),
+  trim: value => value.trim()
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(this|@?[A-Za-z_][\w]*)(\.[A-Za-z_][\w]*)*$/;
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  keyword: 'if' | 'unless' | 'each';
+  position: number;
+  inElse: boolean;
+}
+
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let lastIndex = 0;
+
+  const current = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    if (block.node.type === 'if' && block.inElse) return block.node.otherwise;
+    return block.node.body;
+  };
+
+  const checkPath = (path: string, position: number) => {
+    if (!PATH_PATTERN.test(path)) {
+      throw new TemplateError(`Invalid variable name "${path}"`, position);
+    }
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const position = match.index!;
+    const tag = match[1];
+
+    if (position > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, position) });
+    }
+    lastIndex = position + match[0].length;
+
+    if (tag.startsWith('#')) {
+      const [keyword, path, ...rest] = tag.slice(1).split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        throw new TemplateError(`Unknown block "#${keyword}"`, position);
+      }
+      if (!path || rest.length > 0) {
+        throw new TemplateError(`"#${keyword}" takes exactly one variable`, position);
+      }
+      checkPath(path, position);
+
+      const node: OpenBlock['node'] = keyword === 'each'
+        ? { type: 'each', path, body: [] }
+        : { type: 'if', path, negate: keyword === 'unless', body: [], otherwise: [] };
+
+      current().push(node);
+      stack.push({ node, keyword, position, inElse: false });
+    } else if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.node.type !== 'if' || block.inElse) {
+        throw new TemplateError('"else" without a matching "#if" or "#unless"', position);
+      }
+      block.inElse = true;
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const block = stack.pop();
+      if (!block) {
+        throw new TemplateError(`"/${keyword}" without a matching "#${keyword}"`, position);
+      }
+      if (block.keyword !== keyword) {
+        throw new TemplateError(`Expected "/${block.keyword}" but found "/${keyword}"`, position);
+      }
+    } else {
+      const [path, ...filters] = tag.split('|').map(part => part.trim());
+      checkPath(path, position);
+      for (const filter of filters) {
+        if (!FILTERS[filter]) {
+          throw new TemplateError(`Unknown filter "${filter}"`, position);
+        }
+      }
+      current().push({ type: 'variable', path, filters });
+    }
+  }
+
+  if (stack.length > 0) {
+    const block = stack[stack.length - 1];
+    throw new TemplateError(`"#${block.keyword}" is never closed`, block.position);
+  }
+
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function lookup(scopes: TemplateContext[], path: string): unknown {
+  const [head, ...rest] = path.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as TemplateContext)[key] : undefined),
+        scope[head]
+      );
+    }
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    const objects = value.some(item => item !== null && typeof item === 'object');
+    return objects
+      ? value.map(item => stringify((item as TemplateContext)?.text ?? item)).join('\n')
+      : value.map(stringify).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    return stringify((value as TemplateContext).text ?? '');
+  }
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable':
+        return node.filters.reduce((value, filter) => FILTERS[filter](value), stringify(lookup(scopes, node.path)));
+      case 'if': {
+        const truthy = isTruthy(lookup(scopes, node.path)) !== node.negate;
+        return renderNodes(truthy ? node.body : node.otherwise, scopes);
+      }
+      case 'each': {
+        const list = lookup(scopes, node.path);
+        if (!Array.isArray(list)) return '';
+
+        return list.map((item, index) => {
+          const itemScope: TemplateContext = item !== null && typeof item === 'object' && !Array.isArray(item)
+            ? { ...(item as TemplateContext) }
+            : {};
+          itemScope.this = item;
+          itemScope['@index'] = index;
+          itemScope['@number'] = index + 1;
+          itemScope['@first'] = index === 0;
+          itemScope['@last'] = index === list.length - 1;
+
+          return renderNodes(node.body, [...scopes, itemScope]);
+        }).join('');
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Parse a template once and return a function that renders it against a context.
+ * Throws TemplateError for malformed templates.
+ */
+export function compileTemplate(source: string): (context: TemplateContext) => string {
+  const nodes = parse(source);
+  return (context: TemplateContext) => renderNodes(nodes, [context]);
+}
+
+export function renderTemplate(source: string, context: TemplateContext): string {
+  return compileTemplate(source)(context);
+}
+
+/**
+ * Returns a human-readable error for a malformed template, or null when it parses
+ */
+export function validateTemplate(source: string): string | null {
+  try {
+    parse(source);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      const line = source.slice(0, error.position).split('\n').length;
+      return `Line ${line}: ${error.message}`;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,237 @@
+// Common English function words ignored when scoring content words
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'actually', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any',
+  'are', 'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'don\'t', 'down', 'during', 'each', 'even', 'few', 'for',
+  'from', 'further', 'get', 'gets', 'getting', 'go', 'going', 'gonna', 'got', 'had', 'has', 'have', 'having',
+  'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i', 'i\'m', 'i\'ll', 'i\'ve', 'if',
+  'in', 'into', 'is', 'it', 'it\'s', 'its', 'itself', 'just', 'kind', 'know', 'let', 'let\'s', 'like', 'lot',
+  'make', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of',
+  'off', 'oh', 'ok', 'okay', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out',
+  'over', 'own', 'pretty', 'really', 'right', 'said', 'same', 'say', 'see', 'she', 'should', 'so', 'some',
+  'something', 'sort', 'still', 'such', 'sure', 'than', 'that', 'that\'s', 'the', 'their', 'theirs', 'them',
+  'themselves', 'then', 'there', 'there\'s', 'these', 'they', 'they\'re', 'thing', 'things', 'think', 'this',
+  'those', 'through', 'to', 'too', 'um', 'uh', 'under', 'until', 'up', 'us', 'very', 'want', 'was', 'way',
+  'we', 'we\'re', 'we\'ll', 'we\'ve', 'well', 'were', 'what', 'what\'s', 'when', 'where', 'which', 'while',
+  'who', 'whom', 'why', 'will', 'with', 'would', 'yeah', 'yes', 'you', 'you\'re', 'you\'ll', 'you\'ve', 'your',
+  'yours', 'yourself', 'yourselves'
+]);
+
+const SPANISH_STOPWORDS = new Set([
+  'a', 'al', 'algo', 'algunos', 'ante', 'antes', 'aquí', 'así', 'bien', 'bueno', 'cada', 'como', 'cómo',
+  'con', 'cosa', 'cosas', 'cual', 'cuando', 'de', 'del', 'desde', 'donde', 'dos', 'el', 'él', 'ella',
+  'ellas', 'ellos', 'en', 'entonces', 'entre', 'era', 'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta',
+  'está', 'estamos', 'están', 'estar', 'estas', 'este', 'esto', 'estos', 'estoy', 'fue', 'ha', 'hace',
+  'hacer', 'han', 'hasta', 'hay', 'he', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'mis',
+  'mucho', 'muy', 'nada', 'ni', 'no', 'nos', 'nosotros', 'o', 'otra', 'otro', 'para', 'pero', 'poco',
+  'por', 'porque', 'pues', 'que', 'qué', 'quien', 'se', 'sea', 'ser', 'si', 'sí', 'sin', 'sobre', 'son',
+  'su', 'sus', 'también', 'tan', 'te', 'tener', 'tiene', 'tienen', 'todo', 'todos', 'tu', 'tú', 'un',
+  'una', 'uno', 'unos', 'vamos', 'va', 'vale', 'ver', 'y', 'ya', 'yo'
+]);
+
+const FRENCH_STOPWORDS = new Set([
+  'à', 'ai', 'alors', 'as', 'au', 'aussi', 'autre', 'aux', 'avec', 'avez', 'avoir', 'avons', 'bah', 'bien',
+  'bon', 'c\'est', 'ça', 'ce', 'cela', 'ces', 'cet', 'cette', 'chose', 'choses', 'comme', 'comment', 'dans',
+  'de', 'des', 'donc', 'du', 'elle', 'elles', 'en', 'encore', 'est', 'et', 'été', 'être', 'euh', 'eux',
+  'fait', 'faire', 'il', 'ils', 'j\'ai', 'je', 'juste', 'la', 'là', 'le', 'les', 'leur', 'leurs', 'lui',
+  'ma', 'mais', 'me', 'même', 'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ont', 'ou', 'où',
+  'par', 'pas', 'peu', 'peut', 'plus', 'pour', 'pourquoi', 'qu\'il', 'quand', 'que', 'quel', 'quelle',
+  'qui', 'quoi', 'sa', 'sans', 'se', 'ses', 'si', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton',
+  'tous', 'tout', 'toute', 'très', 'tu', 'un', 'une', 'va', 'vais', 'voilà', 'vos', 'votre', 'vous', 'vraiment',
+  'y'
+]);
+
+const GERMAN_STOPWORDS = new Set([
+  'aber', 'alle', 'allem', 'alles', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis',
+  'bist', 'da', 'dann', 'das', 'dass', 'dein', 'dem', 'den', 'denn', 'der', 'des', 'dich', 'die', 'dies',
+  'diese', 'diesem', 'diesen', 'dieser', 'dir', 'doch', 'dort', 'du', 'durch', 'ein', 'eine', 'einem',
+  'einen', 'einer', 'eines', 'einfach', 'er', 'es', 'etwas', 'euch', 'für', 'gibt', 'ganz', 'gut', 'habe',
+  'haben', 'hat', 'hier', 'ich', 'ihr', 'ihre', 'im', 'in', 'ist', 'ja', 'jetzt', 'kann', 'kein', 'keine',
+  'mal', 'man', 'mehr', 'mein', 'meine', 'mich', 'mir', 'mit', 'muss', 'nach', 'nicht', 'noch', 'nun',
+  'nur', 'ob', 'oder', 'ohne', 'schon', 'sehr', 'sein', 'sich', 'sie', 'sind', 'so', 'und', 'uns', 'unser',
+  'unter', 'vom', 'von', 'vor', 'war', 'was', 'weil', 'wenn', 'werden', 'wie', 'wir', 'wird', 'wirklich',
+  'wo', 'zu', 'zum', 'zur', 'äh', 'ähm', 'über'
+]);
+
+const ITALIAN_STOPWORDS = new Set([
+  'a', 'abbiamo', 'ad', 'al', 'alla', 'alle', 'allora', 'anche', 'ancora', 'avere', 'bene', 'c\'è', 'che',
+  'chi', 'ci', 'come', 'con', 'cosa', 'così', 'cui', 'da', 'dal', 'dalla', 'dei', 'del', 'della', 'delle',
+  'di', 'dove', 'e', 'è', 'ecco', 'essere', 'fa', 'fare', 'gli', 'ha', 'hanno', 'ho', 'i', 'il', 'in', 'io',
+  'la', 'le', 'lei', 'li', 'lo', 'loro', 'lui', 'ma', 'mi', 'mio', 'molto', 'ne', 'nel', 'nella', 'noi',
+  'non', 'nostro', 'o', 'ok', 'per', 'perché', 'però', 'più', 'poi', 'proprio', 'quando', 'quello',
+  'questa', 'questo', 'qui', 'se', 'sei', 'si', 'sì', 'sia', 'siamo', 'sono', 'su', 'sua', 'suo', 'sul',
+  'tra', 'tu', 'tutti', 'tutto', 'un', 'una', 'uno', 'va', 'vi', 'voi'
+]);
+
+const PORTUGUESE_STOPWORDS = new Set([
+  'a', 'à', 'agora', 'ai', 'aí', 'ao', 'aos', 'aqui', 'as', 'até', 'bem', 'cada', 'coisa', 'coisas', 'com',
+  'como', 'da', 'das', 'de', 'dele', 'dela', 'depois', 'do', 'dos', 'e', 'é', 'ela', 'elas', 'ele', 'eles',
+  'em', 'então', 'era', 'essa', 'esse', 'isso', 'esta', 'está', 'estamos', 'estão', 'este', 'estou', 'eu',
+  'foi', 'gente', 'há', 'isto', 'já', 'lá', 'lhe', 'mais', 'mas', 'me', 'mesmo', 'meu', 'minha', 'muito',
+  'na', 'nas', 'não', 'nem', 'no', 'nos', 'nós', 'num', 'numa', 'o', 'os', 'ou', 'para', 'pela', 'pelo',
+  'por', 'porque', 'pra', 'quando', 'que', 'quem', 'se', 'seu', 'sua', 'são', 'sem', 'ser', 'sim', 'só',
+  'também', 'tem', 'ter', 'tipo', 'todo', 'tudo', 'um', 'uma', 'vai', 'você', 'vocês', 'vou'
+]);
+
+const STOPWORDS_BY_LANGUAGE: Record<string, Set<string>> = {
+  en: STOPWORDS,
+  es: SPANISH_STOPWORDS,
+  fr: FRENCH_STOPWORDS,
+  de: GERMAN_STOPWORDS,
+  it: ITALIAN_STOPWORDS,
+  pt: PORTUGUESE_STOPWORDS
+};
+
+/**
+ * Stopwords for a language code such as 'es' or 'pt-BR'. Languages without a list fall back to
+ * English, which is harmless for them.
+ */
+export function getStopwords(language?: string): Set<string> {
+  const base = (language || 'en').toLowerCase().split(/[-_]/)[0];
+  return STOPWORDS_BY_LANGUAGE[base] || STOPWORDS;
+}
+
+export interface KeyPhrase {
+  phrase: string;
+  score: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+
+/**
+ * Lowercase word tokens, keeping apostrophes inside words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) || []).map(word => word.replace('’', '\''));
+}
+
+/**
+ * Content words: tokens that aren't stopwords, numbers or too short to carry meaning
+ */
+export function contentWords(text: string, stopwords: Set<string> = STOPWORDS): string[] {
+  return tokenize(text).filter(word => word.length > 2 && !stopwords.has(word) && !/^\d+$/.test(word));
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=\S)/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * RAKE keyword extraction. Candidate phrases are runs of content words between stopwords and
+ * punctuation; each word scores degree / frequency and a phrase scores the sum of its words.
+ * Ties are broken alphabetically so results are stable across runs.
+ */
+export function extractKeyPhrases(
+  text: string,
+  options: { maxPhrases?: number; maxWords?: number; stopwords?: Set<string> } = {}
+): KeyPhrase[] {
+  const { maxPhrases = 10, maxWords = 3, stopwords = STOPWORDS } = options;
+
+  const candidates: string[][] = [];
+  for (const fragment of text.split(/[.,!?;:()"\n–—-]+/)) {
+    let current: string[] = [];
+    for (const word of tokenize(fragment)) {
+      if (stopwords.has(word) || word.length < 3 || /^\d+$/.test(word)) {
+        if (current.length > 0) candidates.push(current);
+        current = [];
+      } else {
+        current.push(word);
+      }
+    }
+    if (current.length > 0) candidates.push(current);
+  }
+
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  for (const candidate of candidates) {
+    if (candidate.length > maxWords) continue;
+    for (const word of candidate) {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + candidate.length);
+    }
+  }
+
+  const phraseScores = new Map<string, { score: number; count: number }>();
+  for (const candidate of candidates) {
+    if (candidate.length > maxWords) continue;
+    const phrase = candidate.join(' ');
+    const score = candidate.reduce((sum, word) => sum + degree.get(word)! / frequency.get(word)!, 0);
+    const existing = phraseScores.get(phrase);
+    phraseScores.set(phrase, { score, count: (existing?.count || 0) + 1 });
+  }
+
+  // Phrases mentioned once are usually noise in speech; prefer repeated ones when we have enough
+  const entries = Array.from(phraseScores.entries());
+  const repeated = entries.filter(([, value]) => value.count > 1);
+  const pool = repeated.length >= Math.min(maxPhrases, 3) ? repeated : entries;
+
+  return pool
+    .map(([phrase, value]) => ({ phrase, score: value.score * Math.log2(1 + value.count) }))
+    .sort((a, b) => b.score - a.score || a.phrase.localeCompare(b.phrase))
+    .slice(0, maxPhrases);
+}
+
+/**
+ * TF-IDF weights for each document's content words
+ */
+export function computeTfIdf(documents: string[], stopwords: Set<string> = STOPWORDS): Map<string, number>[] {
+  const termCounts = documents.map(document => {
+    const counts = new Map<string, number>();
+    for (const word of contentWords(document, stopwords)) {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return termCounts.map(counts => {
+    const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0) || 1;
+    const weights = new Map<string, number>();
+    for (const [term, count] of counts) {
+      const idf = Math.log((1 + documents.length) / (1 + documentFrequency.get(term)!)) + 1;
+      weights.set(term, (count / total) * idf);
+    }
+    return weights;
+  });
+}
+
+/**
+ * Highest-weighted terms, alphabetical on ties
+ */
+export function topTerms(weights: Map<string, number>, limit: number): string[] {
+  return Array.from(weights.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other) dot += weight * other;
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function toTitleCase(text: string): string {
+  return text.replace(/\p{L}[\p{L}']*/gu, word => word.charAt(0).toUpperCase() + word.slice(1));
+}
@@ -1,8 +1,26 @@
+import { createAbortError, isAbortError, throwIfAborted } from './abort';
+
 export interface AudioProcessingOptions {
   quality?: 'low' | 'medium' | 'high';
   sampleRate?: number;
   channels?: number;
   bitRate?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChunkingOptions {
+  sampleRate?: number;
+  chunkDuration?: number;
+  overlap?: number;
+  silenceSearchWindow?: number;
+  silenceThreshold?: number;
+}
+
+export interface AudioChunk {
+  audioData: Float32Array;
+  sampleRate: number;
+  startTime: number; // offset of this chunk within the full audio, in seconds
+  endTime: number;
 }
 
 export interface ProcessingProgress {
@@ -11,6 +29,10 @@ export interface ProcessingProgress {
   message: string;
 }
 
+// decodeAudioData needs the whole file in memory; larger videos go straight to ffmpeg.wasm,
+// which reads them from disk in slices
+const WEB_AUDIO_MAX_BYTES = 512 * 1024 * 1024;
+
 export class VideoToAudioProcessor {
   private onProgress?: (progress: ProcessingProgress) => void;
 
@@ -30,26 +52,31 @@ export class VideoToAudioProcessor {
       quality = 'medium',
       sampleRate = 16000, // Optimal for Whisper API
       channels = 1, // Mono for better API performance
-      bitRate = 64000
+      bitRate = 64000,
+      signal
     } = options;
 
     this.updateProgress('loading', 0, 'Loading video file...');
 
+    // Create video element to load the file
+    const videoElement = document.createElement('video');
+    const videoUrl = URL.createObjectURL(videoFile);
+    let audioContext: AudioContext | null = null;
+
     try {
-      // Create video element to load the file
-      const videoElement = document.createElement('video');
-      const videoUrl = URL.createObjectURL(videoFile);
+      throwIfAborted(signal);
       videoElement.src = videoUrl;
       
       await new Promise((resolve, reject) => {
         videoElement.onloadedmetadata = resolve;
         videoElement.onerror = reject;
       });
+      throwIfAborted(signal);
 
       this.updateProgress('extracting', 25, 'Extracting audio from video...');
 
       // Create audio context for processing
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
+      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
         sampleRate
       });
 
@@ -83,22 +110,26 @@ export class VideoToAudioProcessor {
       this.updateProgress('compressing', 75, 'Compressing audio...');
 
       // Record audio
-      const audioBlob = await this.recordAudio(mediaRecorder, videoElement);
+      const audioBlob = await this.recordAudio(mediaRecorder, videoElement, signal);
       
       this.updateProgress('complete', 100, 'Audio extraction complete!');
 
-      // Clean up
-      URL.revokeObjectURL(videoUrl);
-      audioContext.close();
-
       return {
         audioBlob,
         duration: videoElement.duration
       };
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error extracting audio:', error);
       throw new Error(`Failed to extract audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Clean up, whether extraction finished, failed or was cancelled
+      videoElement.pause();
+      URL.revokeObjectURL(videoUrl);
+      if (audioContext && audioContext.state !== 'closed') {
+        audioContext.close();
+      }
     }
   }
 
@@ -119,10 +150,24 @@ export class VideoToAudioProcessor {
     return mediaRecorder;
   }
 
-  private async recordAudio(mediaRecorder: MediaRecorder, videoElement: HTMLVideoElement): Promise<Blob> {
+  private async recordAudio(
+    mediaRecorder: MediaRecorder,
+    videoElement: HTMLVideoElement,
+    signal?: AbortSignal
+  ): Promise<Blob> {
     return new Promise((resolve, reject) => {
       const chunks: Blob[] = [];
 
+      // Stop playback and recording straight away; the partial recording is discarded
+      const onAbort = () => {
+        videoElement.pause();
+        if (mediaRecorder.state !== 'inactive') {
+          mediaRecorder.stop();
+        }
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunks.push(event.data);
@@ -130,6 +175,7 @@ export class VideoToAudioProcessor {
       };
 
       mediaRecorder.onstop = () => {
+        signal?.removeEventListener('abort', onAbort);
         const audioBlob = new Blob(chunks, { type: 'audio/webm' });
         resolve(audioBlob);
       };
@@ -150,27 +196,187 @@ export class VideoToAudioProcessor {
     });
   }
 
-  // Alternative method using OfflineAudioContext for better performance
-  async extractAudioOffline(videoFile: File): Promise<{ audioBuffer: ArrayBuffer; duration: number }> {
+  // Decode the video's audio track faster than realtime into mono PCM at the target sample rate.
+  // Uses the browser's decoder when it understands the container and the file is small enough to
+  // hold in memory, otherwise ffmpeg.wasm.
+  async extractAudioOffline(
+    videoFile: File,
+    options: AudioProcessingOptions = {}
+  ): Promise<{ audioData: Float32Array; sampleRate: number; duration: number }> {
+    const { sampleRate = 16000, signal } = options;
+
     this.updateProgress('loading', 0, 'Loading video for offline processing...');
 
     try {
-      const arrayBuffer = await videoFile.arrayBuffer();
-      
-      this.updateProgress('extracting', 50, 'Processing audio offline...');
+      throwIfAborted(signal);
+
+      let audioData: Float32Array | null = null;
+      if (videoFile.size <= WEB_AUDIO_MAX_BYTES) {
+        const arrayBuffer = await videoFile.arrayBuffer();
+        throwIfAborted(signal);
+
+        this.updateProgress('extracting', 20, 'Decoding audio track...');
+        try {
+          audioData = await this.decodeWithWebAudio(arrayBuffer, sampleRate);
+        } catch (decodeError) {
+          console.warn('Browser could not decode this container, falling back to ffmpeg.wasm:', decodeError);
+        }
+      }
+      audioData ??= await this.decodeWithFFmpeg(videoFile, sampleRate, signal);
+      throwIfAborted(signal);
+
+      this.updateProgress('complete', 100, 'Audio extraction complete!');
+
+      return {
+        audioData,
+        sampleRate,
+        duration: audioData.length / sampleRate
+      };
 
-      // Note: This is a simplified version. In a real implementation,
-      // you'd need to use libraries like FFmpeg.wasm for proper video decoding
-      // For now, we'll use the online method above
-      
-      throw new Error('Offline processing not implemented yet. Use extractAudioFromVideo instead.');
-      
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error in offline audio extraction:', error);
+      throw new Error(`Failed to extract audio offline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Extract audio as a 16-bit WAV blob, preferring offline decoding and falling back to
+  // realtime capture through MediaRecorder when neither decoder can read the file
+  async extractAudio(
+    videoFile: File,
+    options: AudioProcessingOptions = {}
+  ): Promise<{ audioBlob: Blob; duration: number }> {
+    try {
+      const { audioData, sampleRate, duration } = await this.extractAudioOffline(videoFile, options);
+      return { audioBlob: this.encodeWAV(audioData, sampleRate), duration };
+    } catch (offlineError) {
+      if (isAbortError(offlineError)) throw offlineError;
+      console.warn('Offline extraction failed, using realtime extraction:', offlineError);
+      return this.extractAudioFromVideo(videoFile, options);
+    }
+  }
+
+  // Extract mono PCM at the target sample rate, ready to hand to the transcription worker.
+  // Falls back to realtime capture like extractAudio; decoding that short WAV is cheap next to
+  // decoding the video again.
+  async extractSamples(
+    videoFile: File,
+    options: AudioProcessingOptions = {}
+  ): Promise<{ audioData: Float32Array; sampleRate: number; duration: number }> {
+    const { sampleRate = 16000 } = options;
+    try {
+      return await this.extractAudioOffline(videoFile, options);
+    } catch (offlineError) {
+      if (isAbortError(offlineError)) throw offlineError;
+      console.warn('Offline extraction failed, using realtime extraction:', offlineError);
+      const { audioBlob, duration } = await this.extractAudioFromVideo(videoFile, options);
+      return { audioData: await this.decodeAudio(audioBlob, sampleRate), sampleRate, duration };
+    }
+  }
+
+  // Decode an audio file (e.g. the WAV from extractAudio) into mono PCM at the target sample rate
+  async decodeAudio(audio: Blob, sampleRate: number = 16000): Promise<Float32Array> {
+    return this.decodeWithWebAudio(await audio.arrayBuffer(), sampleRate);
+  }
+
+  private async decodeWithWebAudio(arrayBuffer: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+    // decodeAudioData on an OfflineAudioContext resamples to that context's rate
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    const decoded = await context.decodeAudioData(arrayBuffer);
+
+    this.updateProgress('extracting', 70, 'Mixing down to mono...');
+
+    if (decoded.numberOfChannels === 1) {
+      return decoded.getChannelData(0).slice();
+    }
+
+    const mono = new Float32Array(decoded.length);
+    for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+      const data = decoded.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] / decoded.numberOfChannels;
+      }
+    }
+    return mono;
+  }
+
+  // The ffmpeg core is served with the app rather than fetched from a CDN, and the video is mounted
+  // with WORKERFS so ffmpeg reads it from the File as needed instead of copying it into memory
+  private async decodeWithFFmpeg(videoFile: File, sampleRate: number, signal?: AbortSignal): Promise<Float32Array> {
+    this.updateProgress('extracting', 25, 'Loading audio decoder...');
+
+    const [{ FFmpeg, FFFSType }, { default: coreURL }, { default: wasmURL }] = await Promise.all([
+      import('@ffmpeg/ffmpeg'),
+      import('@ffmpeg/core?url'),
+      import('@ffmpeg/core/wasm?url')
+    ]);
+
+    const ffmpeg = new FFmpeg();
+    ffmpeg.on('progress', ({ progress }) => {
+      const percent = Math.min(1, Math.max(0, progress));
+      this.updateProgress('extracting', 30 + percent * 60, `Decoding audio... ${Math.round(percent * 100)}%`);
+    });
+
+    // Terminating ffmpeg rejects whichever call is in progress
+    const onAbort = () => ffmpeg.terminate();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      throwIfAborted(signal);
+      await ffmpeg.load({ coreURL, wasmURL });
+      await ffmpeg.createDir('/input');
+      await ffmpeg.mount(FFFSType.WORKERFS, { files: [videoFile] }, '/input');
+      await ffmpeg.exec(['-i', `/input/${videoFile.name}`, '-vn', '-ac', '1', '-ar', String(sampleRate), '-f', 'f32le', 'output.pcm']);
+
+      const output = await ffmpeg.readFile('output.pcm');
+      if (typeof output === 'string' || output.byteLength === 0) {
+        throw new Error('No audio track found in video');
+      }
+
+      // Copy so the Float32Array view starts on an aligned buffer
+      return new Float32Array(output.slice().buffer);
+    } catch (error) {
+      throwIfAborted(signal);
       throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      ffmpeg.terminate();
     }
   }
 
+  // Encode mono PCM samples as a 16-bit WAV file
+  encodeWAV(samples: Float32Array, sampleRate: number): Blob {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+      }
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // PCM chunk size
+    view.setUint16(20, 1, true); // PCM format
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+
   // Convert audio blob to base64 for API transmission
   async audioToBase64(audioBlob: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -186,23 +392,82 @@ export class VideoToAudioProcessor {
     });
   }
 
-  // Chunk large audio files for API processing
-  async chunkAudio(audioBlob: Blob, chunkSizeMinutes = 5): Promise<Blob[]> {
-    const chunkSizeBytes = chunkSizeMinutes * 60 * 16000 * 2; // Approximate for 16kHz mono
-    
-    if (audioBlob.size <= chunkSizeBytes) {
-      return [audioBlob];
+  // Split decoded PCM into overlapping chunks, preferring to cut inside silence near each
+  // boundary. Each chunk carries its start offset so transcripts can be shifted back into place.
+  async chunkAudio(audio: Blob | Float32Array, options: ChunkingOptions = {}): Promise<AudioChunk[]> {
+    const {
+      sampleRate = 16000,
+      chunkDuration = 30, // seconds
+      overlap = 1, // seconds shared between neighbouring chunks
+      silenceSearchWindow = 3, // seconds before the nominal boundary to look for a pause
+      silenceThreshold = 0.01 // RMS below which a frame counts as silence
+    } = options;
+
+    const audioData = audio instanceof Float32Array
+      ? audio
+      : await this.decodeAudio(audio, sampleRate);
+
+    const chunkSamples = Math.floor(chunkDuration * sampleRate);
+    const overlapSamples = Math.floor(overlap * sampleRate);
+
+    if (audioData.length <= chunkSamples) {
+      return [{ audioData, sampleRate, startTime: 0, endTime: audioData.length / sampleRate }];
     }
 
-    const chunks: Blob[] = [];
-    let offset = 0;
+    const chunks: AudioChunk[] = [];
+    let start = 0;
 
-    while (offset < audioBlob.size) {
-      const chunk = audioBlob.slice(offset, offset + chunkSizeBytes);
-      chunks.push(chunk);
-      offset += chunkSizeBytes;
+    while (start < audioData.length) {
+      let end = Math.min(start + chunkSamples, audioData.length);
+
+      if (end < audioData.length) {
+        end = this.findSilentSplit(audioData, sampleRate, end, silenceSearchWindow, silenceThreshold, start);
+      }
+
+      chunks.push({
+        audioData: audioData.subarray(start, end),
+        sampleRate,
+        startTime: start / sampleRate,
+        endTime: end / sampleRate
+      });
+
+      if (end >= audioData.length) break;
+      start = Math.max(start + 1, end - overlapSamples);
     }
 
     return chunks;
   }
+
+  // Find the quietest 20ms frame in the window before the nominal split point. Falls back to
+  // the nominal point when nothing in the window is quiet enough.
+  private findSilentSplit(
+    audioData: Float32Array,
+    sampleRate: number,
+    nominalEnd: number,
+    searchWindow: number,
+    threshold: number,
+    chunkStart: number
+  ): number {
+    const frameSize = Math.floor(sampleRate * 0.02);
+    const windowStart = Math.max(chunkStart + frameSize, nominalEnd - Math.floor(searchWindow * sampleRate));
+
+    let bestFrame = nominalEnd;
+    let bestRms = Infinity;
+
+    for (let frameStart = windowStart; frameStart + frameSize <= nominalEnd; frameStart += frameSize) {
+      let sumSquares = 0;
+      for (let i = frameStart; i < frameStart + frameSize; i++) {
+        sumSquares += audioData[i] * audioData[i];
+      }
+      const rms = Math.sqrt(sumSquares / frameSize);
+
+      // Later frames win ties so chunks stay close to the requested duration
+      if (rms <= bestRms) {
+        bestRms = rms;
+        bestFrame = frameStart + Math.floor(frameSize / 2);
+      }
+    }
+
+    return bestRms < threshold ? bestFrame : nominalEnd;
+  }
 }
\ No newline at end of file
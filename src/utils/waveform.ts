@@ -0,0 +1,32 @@
+/**
+ * Reduce PCM samples to per-bucket peak amplitudes (0..1) for drawing a waveform
+ */
+export function computeWaveformPeaks(
+  audioData: Float32Array,
+  sampleRate: number,
+  peaksPerSecond: number = 100
+): Float32Array {
+  const samplesPerPeak = Math.max(1, Math.floor(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(audioData.length / samplesPerPeak));
+  let max = 0;
+
+  for (let i = 0; i < peaks.length; i++) {
+    let peak = 0;
+    const end = Math.min(audioData.length, (i + 1) * samplesPerPeak);
+    for (let j = i * samplesPerPeak; j < end; j++) {
+      const value = Math.abs(audioData[j]);
+      if (value > peak) peak = value;
+    }
+    peaks[i] = peak;
+    if (peak > max) max = peak;
+  }
+
+  // Normalise so quiet recordings still fill the timeline
+  if (max > 0) {
+    for (let i = 0; i < peaks.length; i++) {
+      peaks[i] /= max;
+    }
+  }
+
+  return peaks;
+}
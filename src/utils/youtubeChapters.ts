@@ -0,0 +1,83 @@
+import { TranscriptionSegment } from '@/services/transcriptionService';
+import { transcriptAnalyzer, TranscriptChapter } from '@/services/transcriptAnalyzer';
+
+// YouTube only turns a timestamp list into chapters when all of these hold
+export const YOUTUBE_CHAPTER_RULES = {
+  minChapters: 3,
+  minChapterLength: 10 // seconds
+};
+
+/**
+ * Format seconds as MM:SS or H:MM:SS, the timestamp style YouTube recognises in descriptions
+ */
+export function formatChapterTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+  const secs = (total % 60).toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Propose chapters from transcript segments that satisfy YouTube's rules.
+ * Returns an empty list when the video is too short to hold three chapters.
+ */
+export function proposeYouTubeChapters(segments: TranscriptionSegment[]): TranscriptChapter[] {
+  const duration = segments.reduce((max, segment) => Math.max(max, segment.end), 0);
+
+  // Prefer roomy chapters, but shrink towards YouTube's minimum so short videos still qualify.
+  // Leaving one chapter's worth of slack lets boundaries land on segment starts.
+  const minChapterLength = Math.max(
+    YOUTUBE_CHAPTER_RULES.minChapterLength,
+    Math.min(30, Math.floor(duration / (YOUTUBE_CHAPTER_RULES.minChapters + 1)))
+  );
+
+  const { chapters } = transcriptAnalyzer.analyze(
+    { text: '', segments },
+    { minChapters: YOUTUBE_CHAPTER_RULES.minChapters, minChapterLength }
+  );
+
+  return chapters;
+}
+
+/**
+ * Check chapters against YouTube's rules. Chapters are expected in start order;
+ * each one ends where the next begins and the last ends at the video's duration.
+ */
+export function validateYouTubeChapters(chapters: TranscriptChapter[], duration: number): string[] {
+  const errors: string[] = [];
+
+  if (chapters.length < YOUTUBE_CHAPTER_RULES.minChapters) {
+    errors.push(`YouTube needs at least ${YOUTUBE_CHAPTER_RULES.minChapters} chapters`);
+  }
+
+  if (chapters.length > 0 && chapters[0].start !== 0) {
+    errors.push('The first chapter must start at 00:00');
+  }
+
+  chapters.forEach((chapter, index) => {
+    const end = chapters[index + 1]?.start ?? duration;
+    const label = `Chapter ${index + 1} (${formatChapterTime(chapter.start)})`;
+
+    if (!chapter.title.trim()) {
+      errors.push(`${label}: Title is required`);
+    }
+    if (end - chapter.start < YOUTUBE_CHAPTER_RULES.minChapterLength) {
+      errors.push(`${label}: Must be at least ${YOUTUBE_CHAPTER_RULES.minChapterLength} seconds long`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Sort chapters by start time and recompute each end from the following chapter
+ */
+export function normalizeChapters(chapters: TranscriptChapter[], duration: number): TranscriptChapter[] {
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  return sorted.map((chapter, index) => ({
+    ...chapter,
+    end: sorted[index + 1]?.start ?? duration
+  }));
+}
@@ -0,0 +1,48 @@
+import { WhisperTranscriber } from '@/services/whisperTranscriber';
+import type { TranscribeAudioOptions } from '@/services/transcriptionService';
+import { TranscriptionWorkerRequest, TranscriptionWorkerResponse } from './transcriptionProtocol';
+
+// Requests are processed one at a time so only one copy of the model is ever loaded
+let queue: Promise<void> = Promise.resolve();
+let activeId: number | null = null;
+const cancelled = new Set<number>();
+
+const post = (message: TranscriptionWorkerResponse) => self.postMessage(message);
+
+const transcriber = new WhisperTranscriber((progress) => {
+  if (activeId !== null) post({ type: 'progress', id: activeId, progress });
+});
+
+const transcribe = async (id: number, audio: Float32Array, options: TranscribeAudioOptions) => {
+  if (cancelled.delete(id)) {
+    post({ type: 'cancelled', id });
+    return;
+  }
+
+  activeId = id;
+  try {
+    const result = await transcriber.transcribe(audio, options, (segments) => {
+      if (!cancelled.has(id)) post({ type: 'partial', id, segments });
+    });
+    post(cancelled.delete(id) ? { type: 'cancelled', id } : { type: 'result', id, result });
+  } catch (error) {
+    post(cancelled.delete(id)
+      ? { type: 'cancelled', id }
+      : { type: 'error', id, message: error instanceof Error ? error.message : 'Unknown error' });
+  } finally {
+    activeId = null;
+  }
+};
+
+self.onmessage = (event: MessageEvent<TranscriptionWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'transcribe':
+      queue = queue.then(() => transcribe(message.id, message.audio, message.options));
+      break;
+    case 'cancel':
+      cancelled.add(message.id);
+      break;
+  }
+};
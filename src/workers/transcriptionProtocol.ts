@@ -0,0 +1,20 @@
+import type {
+  TranscribeAudioOptions,
+  TranscriptionProgress,
+  TranscriptionResult,
+  TranscriptionSegment
+} from '@/services/transcriptionService';
+
+// Messages the page sends to the transcription worker. Audio is mono PCM at WHISPER_SAMPLE_RATE.
+export type TranscriptionWorkerRequest =
+  | { type: 'transcribe'; id: number; audio: Float32Array; options: TranscribeAudioOptions }
+  | { type: 'cancel'; id: number };
+
+// Messages the worker sends back, each tagged with the id of the request it answers.
+// A request ends with exactly one of 'result', 'cancelled' or 'error'.
+export type TranscriptionWorkerResponse =
+  | { type: 'progress'; id: number; progress: TranscriptionProgress }
+  | { type: 'partial'; id: number; segments: TranscriptionSegment[] }
+  | { type: 'result'; id: number; result: TranscriptionResult }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
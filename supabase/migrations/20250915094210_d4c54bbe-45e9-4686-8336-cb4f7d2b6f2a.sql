@@ -0,0 +1,215 @@
+-- Persist transcripts and subtitle tracks per video
+
+-- Create transcripts table; each save creates a new version
+CREATE TABLE public.transcripts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL DEFAULT 1,
+  language TEXT,
+  model_name TEXT,
+  text TEXT NOT NULL DEFAULT '',
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb, -- TranscriptionSegment[]
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(video_id, version)
+);
+
+-- Create subtitle_tracks table; one versioned track per language
+CREATE TABLE public.subtitle_tracks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  transcript_id UUID REFERENCES public.transcripts(id) ON DELETE SET NULL,
+  language TEXT NOT NULL,
+  label TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb, -- TranscriptionSegment[]
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(video_id, language, version)
+);
+
+-- Enable RLS
+ALTER TABLE public.transcripts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subtitle_tracks ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for transcripts (inherit from videos table)
+CREATE POLICY "Users can view transcripts for their videos"
+ON public.transcripts
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = transcripts.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create transcripts for their videos"
+ON public.transcripts
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = transcripts.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update transcripts for their videos"
+ON public.transcripts
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = transcripts.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete transcripts for their videos"
+ON public.transcripts
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = transcripts.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage all transcripts"
+ON public.transcripts
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- RLS policies for subtitle_tracks (inherit from videos table)
+CREATE POLICY "Users can view subtitle tracks for their videos"
+ON public.subtitle_tracks
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = subtitle_tracks.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create subtitle tracks for their videos"
+ON public.subtitle_tracks
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = subtitle_tracks.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update subtitle tracks for their videos"
+ON public.subtitle_tracks
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = subtitle_tracks.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete subtitle tracks for their videos"
+ON public.subtitle_tracks
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.videos
+    WHERE videos.id = subtitle_tracks.video_id
+    AND videos.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage all subtitle tracks"
+ON public.subtitle_tracks
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Create indexes for better performance
+CREATE INDEX idx_transcripts_video_id ON public.transcripts(video_id);
+CREATE INDEX idx_subtitle_tracks_video_id ON public.subtitle_tracks(video_id);
+CREATE INDEX idx_subtitle_tracks_transcript_id ON public.subtitle_tracks(transcript_id);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_transcripts_updated_at
+BEFORE UPDATE ON public.transcripts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_subtitle_tracks_updated_at
+BEFORE UPDATE ON public.subtitle_tracks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Save a subtitle track as the next version for its video and language. Numbering and insert
+-- happen under one lock, so concurrent saves (the editor, another tab, a batch worker) each get
+-- their own version instead of colliding on the unique constraint.
+CREATE OR REPLACE FUNCTION public.save_subtitle_track(
+  _video_id UUID,
+  _language TEXT,
+  _segments JSONB,
+  _label TEXT DEFAULT NULL,
+  _transcript_id UUID DEFAULT NULL
+)
+RETURNS public.subtitle_tracks
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _track public.subtitle_tracks;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('subtitle_tracks:' || _video_id || ':' || _language));
+
+  INSERT INTO public.subtitle_tracks (video_id, transcript_id, language, label, version, segments)
+  SELECT _video_id, _transcript_id, _language, _label, COALESCE(MAX(version), 0) + 1, _segments
+  FROM public.subtitle_tracks
+  WHERE video_id = _video_id
+    AND language = _language
+  RETURNING * INTO _track;
+
+  RETURN _track;
+END;
+$function$;
+
+-- Save a transcription as the next transcript version together with its subtitle track; both
+-- rows are written in one transaction, so a transcript never exists without its track
+CREATE OR REPLACE FUNCTION public.save_transcript(
+  _video_id UUID,
+  _text TEXT,
+  _segments JSONB,
+  _language TEXT DEFAULT NULL,
+  _model_name TEXT DEFAULT NULL
+)
+RETURNS public.transcripts
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _transcript public.transcripts;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('transcripts:' || _video_id));
+
+  INSERT INTO public.transcripts (video_id, version, language, model_name, text, segments)
+  SELECT _video_id, COALESCE(MAX(version), 0) + 1, _language, _model_name, _text, _segments
+  FROM public.transcripts
+  WHERE video_id = _video_id
+  RETURNING * INTO _transcript;
+
+  PERFORM public.save_subtitle_track(
+    _video_id,
+    COALESCE(_language, 'und'),
+    _segments,
+    NULL,
+    _transcript.id
+  );
+
+  RETURN _transcript;
+END;
+$function$;
@@ -0,0 +1,50 @@
+-- User-defined metadata templates
+
+-- Create metadata_templates table; each user can mark one template per platform as default
+CREATE TABLE public.metadata_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  platform TEXT NOT NULL,
+  name TEXT NOT NULL,
+  title_template TEXT NOT NULL,
+  description_template TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one default template per user and platform
+CREATE UNIQUE INDEX idx_metadata_templates_default
+ON public.metadata_templates(user_id, platform)
+WHERE is_default;
+
+CREATE INDEX idx_metadata_templates_user_id ON public.metadata_templates(user_id);
+
+-- Enable RLS on metadata_templates table
+ALTER TABLE public.metadata_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for metadata_templates
+CREATE POLICY "Users can view their own templates" 
+ON public.metadata_templates 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own templates" 
+ON public.metadata_templates 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own templates" 
+ON public.metadata_templates 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates" 
+ON public.metadata_templates 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_metadata_templates_updated_at
+  BEFORE UPDATE ON public.metadata_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
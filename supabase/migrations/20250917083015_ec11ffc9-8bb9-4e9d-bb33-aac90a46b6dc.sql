@@ -0,0 +1,34 @@
+-- Record the language metadata was generated in
+
+ALTER TABLE public.video_metadata
+ADD COLUMN language TEXT NOT NULL DEFAULT 'en';
+
+-- Return the language with the rest of the metadata; the return type changes, so recreate the function
+DROP FUNCTION IF EXISTS public.get_video_metadata(UUID);
+
+CREATE FUNCTION public.get_video_metadata(_video_id UUID)
+RETURNS TABLE (
+  platform TEXT,
+  language TEXT,
+  title TEXT,
+  description TEXT,
+  hashtags TEXT[],
+  additional_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    platform,
+    language,
+    title,
+    description,
+    hashtags,
+    additional_data,
+    created_at
+  FROM public.video_metadata
+  WHERE video_id = _video_id
+  ORDER BY created_at DESC;
+$$;
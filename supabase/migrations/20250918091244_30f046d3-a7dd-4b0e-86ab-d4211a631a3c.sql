@@ -0,0 +1,8 @@
+-- Remember each user's Whisper model choice
+
+ALTER TABLE public.profiles
+ADD COLUMN transcription_model TEXT NOT NULL DEFAULT 'base'
+  CHECK (transcription_model IN ('tiny', 'base', 'small', 'medium')),
+ADD COLUMN transcription_english_only BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN transcription_quantization TEXT NOT NULL DEFAULT 'q8'
+  CHECK (transcription_quantization IN ('fp32', 'fp16', 'q8', 'q4'));
@@ -0,0 +1,75 @@
+-- Allow batch jobs to be paused
+
+ALTER TABLE public.batch_jobs
+DROP CONSTRAINT batch_jobs_status_check;
+
+ALTER TABLE public.batch_jobs
+ADD CONSTRAINT batch_jobs_status_check
+  CHECK (status IN ('pending', 'processing', 'paused', 'completed', 'failed', 'cancelled'));
+
+-- Keep a paused or cancelled job in that state while it still has unfinished items; a job with
+-- items in flight stays processing
+CREATE OR REPLACE FUNCTION public.update_batch_job_progress(_batch_job_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _total_items INTEGER;
+  _completed_items INTEGER;
+  _failed_items INTEGER;
+  _active_items INTEGER;
+  _current_status TEXT;
+  _job_status TEXT;
+BEGIN
+  SELECT status INTO _current_status
+  FROM public.batch_jobs
+  WHERE id = _batch_job_id;
+
+  -- Get current counts
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'failed'),
+    COUNT(*) FILTER (WHERE status IN ('processing', 'retrying'))
+  INTO _total_items, _completed_items, _failed_items, _active_items
+  FROM public.queue_items
+  WHERE batch_job_id = _batch_job_id;
+
+  -- Determine job status
+  IF _completed_items + _failed_items = _total_items AND _total_items > 0 THEN
+    IF _failed_items = 0 THEN
+      _job_status := 'completed';
+    ELSE
+      _job_status := 'failed';
+    END IF;
+  ELSIF _current_status IN ('paused', 'cancelled') THEN
+    _job_status := _current_status;
+  -- Other workers may hold items even when nothing has finished yet; falling back to pending
+  -- would stop claim_next_queue_item from handing out the job's remaining items
+  ELSIF _completed_items > 0 OR _failed_items > 0 OR _active_items > 0 THEN
+    _job_status := 'processing';
+  ELSE
+    _job_status := 'pending';
+  END IF;
+
+  -- Update batch job
+  UPDATE public.batch_jobs
+  SET
+    total_items = _total_items,
+    completed_items = _completed_items,
+    failed_items = _failed_items,
+    status = _job_status,
+    started_at = CASE
+      WHEN started_at IS NULL AND _job_status = 'processing' THEN now()
+      ELSE started_at
+    END,
+    completed_at = CASE
+      WHEN _job_status IN ('completed', 'failed') THEN now()
+      ELSE completed_at
+    END,
+    updated_at = now()
+  WHERE id = _batch_job_id;
+END;
+$function$;
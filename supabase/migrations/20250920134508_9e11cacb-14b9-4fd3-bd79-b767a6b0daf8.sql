@@ -0,0 +1,139 @@
+-- Lease-based claiming of queue items, so several tabs or workers never process the same item
+
+ALTER TABLE public.queue_items
+ADD COLUMN worker_id TEXT,
+ADD COLUMN lease_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN retry_after TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_queue_items_lease_expires_at ON public.queue_items(lease_expires_at)
+  WHERE status = 'processing';
+
+-- Release items whose worker stopped renewing its lease. An expired lease counts as a failed
+-- attempt, so an item that crashes its worker every time ends up failed instead of being
+-- claimed forever; the backoff matches QueueManager's (1s, 2s, 4s, ...). Called on every
+-- claim; can also be scheduled on its own (e.g. with pg_cron).
+CREATE OR REPLACE FUNCTION public.release_expired_queue_leases()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _released INTEGER;
+BEGIN
+  UPDATE public.queue_items
+  SET
+    status = CASE WHEN retry_count < max_retries THEN 'retrying' ELSE 'failed' END,
+    retry_count = retry_count + 1,
+    retry_after = CASE
+      WHEN retry_count < max_retries THEN now() + make_interval(secs => power(2, retry_count))
+      ELSE NULL
+    END,
+    error_message = CASE
+      WHEN retry_count < max_retries THEN 'Worker stopped responding; retrying'
+      ELSE 'Worker stopped responding on every attempt'
+    END,
+    completed_at = CASE WHEN retry_count < max_retries THEN completed_at ELSE now() END,
+    worker_id = NULL,
+    lease_expires_at = NULL
+  -- Items already processing when leases were introduced have none; treat them as expired
+  WHERE status = 'processing'
+    AND (lease_expires_at IS NULL OR lease_expires_at < now());
+
+  GET DIAGNOSTICS _released = ROW_COUNT;
+  RETURN _released;
+END;
+$function$;
+
+-- Atomically take the next waiting item of a running batch job. SKIP LOCKED lets concurrent
+-- callers each get a different item instead of queueing behind one another.
+CREATE OR REPLACE FUNCTION public.claim_next_queue_item(
+  _batch_job_id UUID,
+  _worker_id TEXT,
+  _lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF public.queue_items
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM public.release_expired_queue_leases();
+
+  RETURN QUERY
+  UPDATE public.queue_items qi
+  SET
+    status = 'processing',
+    worker_id = _worker_id,
+    lease_expires_at = now() + make_interval(secs => _lease_seconds),
+    retry_after = NULL,
+    started_at = now()
+  WHERE qi.id = (
+    SELECT q.id
+    FROM public.queue_items q
+    JOIN public.batch_jobs bj ON bj.id = q.batch_job_id
+    WHERE q.batch_job_id = _batch_job_id
+      AND bj.status = 'processing'
+      AND q.status IN ('pending', 'retrying')
+      AND (q.retry_after IS NULL OR q.retry_after <= now())
+    ORDER BY q.priority DESC, q.created_at
+    LIMIT 1
+    FOR UPDATE OF q SKIP LOCKED
+  )
+  RETURNING qi.*;
+END;
+$function$;
+
+-- Take one specific item, if it is waiting and its job isn't paused or cancelled
+CREATE OR REPLACE FUNCTION public.claim_queue_item(
+  _queue_item_id UUID,
+  _worker_id TEXT,
+  _lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF public.queue_items
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM public.release_expired_queue_leases();
+
+  RETURN QUERY
+  UPDATE public.queue_items qi
+  SET
+    status = 'processing',
+    worker_id = _worker_id,
+    lease_expires_at = now() + make_interval(secs => _lease_seconds),
+    retry_after = NULL,
+    started_at = now()
+  WHERE qi.id = (
+    SELECT q.id
+    FROM public.queue_items q
+    JOIN public.batch_jobs bj ON bj.id = q.batch_job_id
+    WHERE q.id = _queue_item_id
+      AND bj.status NOT IN ('paused', 'cancelled')
+      AND q.status IN ('pending', 'retrying')
+      AND (q.retry_after IS NULL OR q.retry_after <= now())
+    FOR UPDATE OF q SKIP LOCKED
+  )
+  RETURNING qi.*;
+END;
+$function$;
+
+-- Extend a lease. Returns false when the caller no longer holds it.
+CREATE OR REPLACE FUNCTION public.heartbeat_queue_item(
+  _queue_item_id UUID,
+  _worker_id TEXT,
+  _lease_seconds INTEGER DEFAULT 60
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.queue_items
+  SET lease_expires_at = now() + make_interval(secs => _lease_seconds)
+  WHERE id = _queue_item_id
+    AND worker_id = _worker_id
+    AND status = 'processing';
+
+  RETURN FOUND;
+END;
+$function$;
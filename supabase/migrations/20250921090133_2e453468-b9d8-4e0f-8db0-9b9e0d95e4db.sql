@@ -0,0 +1,38 @@
+-- Enforce the queue item state machine; mirrors QUEUE_ITEM_TRANSITIONS in
+-- src/services/queueStateMachine.ts
+
+CREATE OR REPLACE FUNCTION public.validate_queue_item_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Queue items must be created as pending, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status IN ('pending', 'retrying') AND NEW.status IN ('processing', 'cancelled'))
+    OR (OLD.status = 'processing' AND NEW.status IN ('completed', 'failed', 'retrying', 'cancelled', 'pending'))
+    OR (OLD.status = 'failed' AND NEW.status = 'pending')
+  ) THEN
+    RAISE EXCEPTION 'Queue item cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_queue_item_transition
+  BEFORE INSERT OR UPDATE OF status ON public.queue_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_queue_item_transition();
@@ -19,4 +19,12 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The transcription worker imports transformers.js, which needs code-splitting
+    format: "es",
+  },
+  optimizeDeps: {
+    // ffmpeg.wasm spawns its own module worker, which breaks when pre-bundled
+    exclude: ["@ffmpeg/ffmpeg"],
+  },
 }));
@@ -0,0 +1,22 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the headless batch worker for Node: `npm run worker:build`, then `npm run worker`
+export default defineConfig({
+  resolve: {
+    alias: [
+      // The shared services use the worker's service-role client instead of the browser session
+      {
+        find: "@/integrations/supabase/client",
+        replacement: path.resolve(__dirname, "./src/server/supabaseClient.ts"),
+      },
+      { find: "@", replacement: path.resolve(__dirname, "./src") },
+    ],
+  },
+  publicDir: false,
+  build: {
+    ssr: "src/server/batchWorker.ts",
+    outDir: "dist-worker",
+    target: "node20",
+  },
+});